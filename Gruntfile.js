@@ -9,7 +9,7 @@ module.exports = function(grunt) {
 		pkg: pkg,
 
 		jshint: {
-			files: [ 'src/*.js' ]
+			files: [ 'src/*.js', 'test/*.js' ]
 		},
 
 		uglify: {
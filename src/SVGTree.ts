@@ -3,6 +3,11 @@
 	Adapted to TypeScript from https://github.com/slowli/SVGTree.
  */
 
+import {
+	LabelBox, LayoutNode, LayoutOptions, NodePosition, Orientation, TreeLayout, isHorizontal,
+	layoutTree
+} from './TreeLayout';
+
 // Determines how a user can interact with the tree.
 type Interaction =
 	'collapse' | 	// User can: collapse and expand nodes
@@ -14,6 +19,54 @@ type Interaction =
 						(note that the nodes can be dragged between two trees
 						on the same HTML page) */
 
+/**
+ * Token produced by the Newick tokenizer.
+ */
+interface Token {
+	type: number;		// one of the token type constants of Tokenizer
+	text?: string;		// text of labels and comments
+	offset: number;		// position of the first character of the token in the source
+}
+
+/**
+ * Error thrown when a text cannot be parsed as a tree in Newick format.
+ */
+export class NewickParseError extends Error {
+	readonly line: number;		// one-based line number of the error location
+	readonly column: number;	// one-based column number of the error location
+
+	/**
+	 * Creates a new error.
+	 *
+	 * @param {String} description
+	 *    description of the error
+	 * @param {String} text
+	 *    text being parsed
+	 * @param {Number} offset
+	 *    zero-based offset of the error location in the text
+	 * @param {String} expected
+	 *    (optional) description of the tokens expected at the error location
+	 */
+	constructor(
+		description: string,
+		readonly text: string,
+		readonly offset: number,
+		readonly expected: string = null
+	) {
+		super(description);
+		// Restore the prototype chain broken by extending a built-in class
+		Object.setPrototypeOf(this, NewickParseError.prototype);
+
+		var lines = text.substring(0, offset).split('\n');
+		this.line = lines.length;
+		this.column = lines[lines.length - 1].length + 1;
+
+		this.name = 'NewickParseError';
+		this.message = description + ' at line ' + this.line + ', column ' + this.column +
+			(expected ? '; expected ' + expected : '');
+	}
+}
+
 /**
  * Tokenizer for Newick format. was Tree.Token
  */
@@ -22,48 +75,120 @@ class Tokenizer {
 	static COMMA= 1;
 	static PAR_LEFT= 2;
 	static PAR_RIGHT= 3;
+	static COLON = 4;
+	static LABEL = 5;
+	static COMMENT = 6;
 
+	/**
+	 * Creates a representation of a label that can be safely put into a Newick string.
+	 * Labels containing whitespace or special characters are quoted.
+	 */
 	static escape(text: string) {
-		var escaped = '';
-		for (var pos = 0; pos < text.length; pos++) {
-			if ('(),;\\'.indexOf(text[pos]) < 0)
-				escaped += text[pos];
-			else
-				escaped += '\\' + text[pos];
-		}
-		return escaped;
+		if (!/[\s(),;:\[\]'\\]/.test(text))
+			return text;
+		return '\'' + text.replace(/'/g, '\'\'') + '\'';
 	}
 
-	static unescape(symbol: string, strict?: string) {
-		if (strict && (!symbol || ('(),;\\'.indexOf(symbol) < 0)))
-			throw 'Invalid location of backslash \\';
+	/**
+	 * Returns a symbol escaped with a backslash.
+	 *
+	 * @param {String} text
+	 *    text being tokenized
+	 * @param {Number} pos
+	 *    position of the backslash in the text
+	 * @param {Boolean} strict
+	 *    if set, only special characters may be escaped
+	 */
+	static unescape(text: string, pos: number, strict?: boolean) {
+		var symbol = text[pos + 1];
+		if (!symbol || (strict && ('(),;:[]\'\\'.indexOf(symbol) < 0)))
+			throw new NewickParseError('Invalid location of backslash', text, pos);
 		return symbol;
 	}
 
-	static tokenize(text: string) {
-		var tokens: (string | number)[] = [], pos = 0;
+	/**
+	 * Splits Newick text into tokens. Whitespace between tokens is ignored;
+	 * whitespace inside unquoted labels is preserved. Labels may be quoted
+	 * with single quotes (a quote inside a quoted label is doubled), and special
+	 * characters in unquoted labels may be escaped with a backslash.
+	 *
+	 * @param {String} text
+	 *    text to tokenize
+	 * @param {Boolean} strict
+	 *    if set, backslashes may only escape special characters
+	 */
+	static tokenize(text: string, strict?: boolean) {
+		var tokens: Token[] = [], pos = 0;
+		var label: Token = null,	// unquoted label being read
+			blanks = '';			// whitespace that may belong to the label
+
+		function push(type: number, offset: number, text?: string) {
+			var token: Token = { type: type, offset: offset };
+			if (text !== undefined) token.text = text;
+			tokens.push(token);
+			label = null;
+			blanks = '';
+			return token;
+		}
 
 		while (pos < text.length) {
 			switch (text[pos]) {
 			case ';':
-				tokens.push(Tokenizer.SEMICOLON);
+				push(Tokenizer.SEMICOLON, pos);
 				break;
 			case ',':
-				tokens.push(Tokenizer.COMMA);
+				push(Tokenizer.COMMA, pos);
 				break;
 			case '(':
-				tokens.push(Tokenizer.PAR_LEFT);
+				push(Tokenizer.PAR_LEFT, pos);
 				break;
 			case ')':
-				tokens.push(Tokenizer.PAR_RIGHT);
+				push(Tokenizer.PAR_RIGHT, pos);
+				break;
+			case ':':
+				push(Tokenizer.COLON, pos);
+				break;
+			case '[':
+				// Closing brackets inside double quotes do not end the comment
+				var end = pos + 1, quoted = false;
+				while ((end < text.length) && (quoted || (text[end] != ']'))) {
+					if (text[end] == '"') quoted = !quoted;
+					end++;
+				}
+				if (end >= text.length)
+					throw new NewickParseError('Unterminated comment', text, text.length, '\']\'');
+				push(Tokenizer.COMMENT, pos, text.substring(pos + 1, end));
+				pos = end;
+				break;
+			case ']':
+				throw new NewickParseError('Unexpected \']\'', text, pos);
+			case '\'':
+				var start = pos, value = '';
+				pos++;
+				while ((pos < text.length) &&
+					((text[pos] != '\'') || (text[pos + 1] == '\''))) {
+
+					value += text[pos];
+					if (text[pos] == '\'') pos++;
+					pos++;
+				}
+				if (pos >= text.length)
+					throw new NewickParseError('Unterminated quoted label', text, text.length, '"\'"');
+				push(Tokenizer.LABEL, start, value);
 				break;
 			default:
+				if (/\s/.test(text[pos])) {
+					if (label) blanks += text[pos];
+					break;
+				}
+
 				var symbol = (text[pos] == '\\') ?
-					this.unescape(text[pos + 1]) : text[pos];
-				if (typeof (tokens[tokens.length - 1]) == 'string')
-					tokens[tokens.length - 1] += symbol;
-				else
-					tokens.push(symbol);
+					this.unescape(text, pos, strict) : text[pos];
+				if (label) {
+					label.text += blanks + symbol;
+					blanks = '';
+				} else
+					label = push(Tokenizer.LABEL, pos, symbol);
 
 				if (text[pos] == '\\')
 					pos++;
@@ -72,28 +197,141 @@ class Tokenizer {
 		}
 		return tokens;
 	}
+
+	/**
+	 * Parses a comment containing node attributes. Two formats are supported:
+	 * NHX ([&&NHX:key=value:key=value]) and the one used by BEAST and FigTree
+	 * ([&key=value,key="quoted value"]). Attribute values are returned as strings.
+	 *
+	 * @param {String} comment
+	 *    comment text without brackets
+	 * @returns {Object}
+	 *    attribute map, or null if the comment does not contain attributes
+	 */
+	static parseAnnotation(comment: string) {
+		var parts: string[] = [], nhx = false;
+
+		if (comment.indexOf('&&NHX') === 0) {
+			nhx = true;
+			parts = comment.substring(5).split(':');
+			parts = parts.filter(function(part) { return part.length > 0; });
+		} else if (comment[0] == '&') {
+			// Split by commas outside quotes and braces
+			var part = '', quoted = false, braces = 0;
+			for (var pos = 1; pos < comment.length; pos++) {
+				var c = comment[pos];
+				if (c == '"') quoted = !quoted;
+				if (!quoted && (c == '{')) braces++;
+				if (!quoted && (c == '}')) braces--;
+
+				if (!quoted && (braces === 0) && (c == ',')) {
+					parts.push(part);
+					part = '';
+				} else
+					part += c;
+			}
+			parts.push(part);
+		} else
+			return null;
+
+		var attrs: { [key: string]: string } = {};
+		for (var i = 0; i < parts.length; i++) {
+			var eq = parts[i].indexOf('=');
+			if (eq <= 0) return null;
+
+			var key = parts[i].substring(0, eq).trim(),
+				value = parts[i].substring(eq + 1).trim();
+			if (!nhx && (value.length >= 2) && (value[0] == '"') && (value[value.length - 1] == '"'))
+				value = value.substring(1, value.length - 1).replace(/""/g, '"');
+			attrs[key] = value;
+		}
+		return attrs;
+	}
+
+	/**
+	 * Creates a comment containing node attributes. NHX format is used if possible;
+	 * otherwise, the [&key=value] format is used with values quoted where necessary.
+	 *
+	 * @param {Object} attrs
+	 *    attribute map
+	 * @returns {String}
+	 *    comment with brackets, or an empty string if there are no attributes
+	 */
+	static annotation(attrs: { [key: string]: any }) {
+		var keys = Object.keys(attrs);
+		if (keys.length === 0) return '';
+
+		var values = keys.map(function(key) { return stringify(attrs[key]); });
+		var nhx = values.every(function(value) { return !/[\s:=\[\],"]/.test(value); });
+
+		if (nhx) {
+			return '[&&NHX:' + keys.map(function(key, i) {
+				return key + '=' + values[i];
+			}).join(':') + ']';
+		} else {
+			return '[&' + keys.map(function(key, i) {
+				var value = values[i];
+				if (/[\s="\[\]]/.test(value) || ((value.indexOf(',') >= 0) && !/^\{.*\}$/.test(value)))
+					value = '"' + value.replace(/"/g, '""') + '"';
+				return key + '=' + value;
+			}).join(',') + ']';
+		}
+	}
 }
 
 /**
  * Options that can be passed in to affect how tree is rendered.
+ * D is the type of data associated with tree nodes.
  */
-export interface Options {
-	orientation?: 'v'|'h';	// Orientation of the tree.
-
+export interface Options<D = any> extends LayoutOptions {
 	// Determines the shape of node markers.
-	// Allowed values are 'circle' and 'square'.
+	// Allowed values are 'circle', 'square', 'triangle', 'diamond', 'image', 'none'
+	// and names of markers registered with SVGTree.registerMarker().
 	nodes?: NodeMarker;
+	// Default size of node markers in pixels (the diameter of circles)
+	markerSize?: number;
 
-	// Determines the shape of edges in the tree.
-	// Allowed values are 'straight' and 'angular'.
-	edges?: 'angular'|'straight';
+	// Whether to draw a scale bar in the 'branchLength' mode.
+	scaleBar?: boolean;
 
-	leafDistance?: number;
-	depthDistance?: number;
 	padding?: number;
 	size?: 'fit'|'keep'|number[];
 	labelBackgrounds?: boolean;
 
+	// If set, nodes are spaced according to the measured size of their labels,
+	// so that long labels do not overlap (the radial orientation is not affected).
+	// The minimal gap between labels is set by labelGap.
+	labelSpacing?: boolean;
+
+	// If set, changes made through the node API (e.g., collapsing nodes or editing
+	// their data) are rendered once per animation frame instead of immediately.
+	// Several structural changes within a frame thus result in a single layout of the tree.
+	// SVGTree.flush() renders pending changes synchronously.
+	batchRendering?: boolean;
+
+	// If set, SVG elements and HTML targets are only created for nodes inside the visible
+	// part of the tree (extended by virtualMargin pixels on each side). Elements of nodes
+	// leaving the view are detached, and HTML targets are reused for other nodes.
+	// The visible part is determined by the wrapper element, which becomes scrollable
+	// in this mode (the svgtree-virtualized class); the wrapper should have a limited size.
+	// Keyboard navigation moves the view to the selected node, and exported SVG documents
+	// contain all nodes.
+	virtualize?: boolean;
+	virtualMargin?: number;
+
+	// Enables zooming with the mouse wheel or a pinch gesture, and panning by dragging
+	// the empty canvas. Zoom limits and the zoom factor for zoomIn() / zoomOut()
+	// apply to the programmatic zooming as well.
+	panZoom?: boolean;
+	minZoom?: number;
+	maxZoom?: number;
+	zoomStep?: number;
+
+	// Animates transitions after the layout of the tree changes (e.g., when nodes
+	// are collapsed, expanded, inserted or moved). Appearing nodes grow out of
+	// their parent, and disappearing nodes shrink back into it.
+	animation?: false|AnimationOptions;
+
 	// Determines how a user can interact with the tree.
 	interaction?: false|Interaction[];
 
@@ -102,12 +340,66 @@ export interface Options {
 
 	targetSize?: number;
 
-	summary?: (node: SVGTreeNode)=>string;
+	summary?: (node: SVGTreeNode<D>)=>string;
+
+	// Converts node data into the text of the node label.
+	label?: (data: D) => string;
+
+	// Placement of labels relative to node markers: 'below', 'above', 'left', 'right'
+	// or 'rotated' (vertical text, e.g., for leaves of a dendrogram). Leaves (including
+	// collapsed nodes) and internal nodes may be placed differently with an object
+	// { leaves: ..., internal: ... }. If not set, the placement depends on the orientation.
+	// The option does not apply to the radial orientation.
+	labelPosition?: LabelPosition|{ leaves?: LabelPosition, internal?: LabelPosition };
+
+	// Maximal width of a label line in pixels. Longer lines are truncated with an ellipsis,
+	// and the full text is shown on hover.
+	maxLabelWidth?: number;
+	// If set, labels are rendered as HTML content of a foreignObject element. The function
+	// returns the markup (inserted as is, without escaping) or an element for node data.
+	htmlLabel?: (data: D) => string|HTMLElement;
+
+	// Return classes and inline styles for the elements of a node and the edge leading
+	// to it. The callbacks are evaluated each time the node is rendered, i.e., after
+	// its data or attributes change or it is moved.
+	nodeStyle?: (node: SVGTreeNode<D>) => NodeStyle;
+	edgeStyle?: (node: SVGTreeNode<D>) => EdgeStyle;
+
+	// Returns the text of the label placed at the middle of the edge leading to a node
+	// (e.g., a branch length or a confidence value), or an empty string for no label.
+	// The label follows the last segment of the edge. edgeLabelBackgrounds draws
+	// backgrounds under edge labels similarly to labelBackgrounds.
+	edgeLabel?: (node: SVGTreeNode<D>) => string;
+	edgeLabelBackgrounds?: boolean;
+	// Converts node data into a string for Newick representations, drag operations
+	// and the editing input.
+	serialize?: (data: D) => string;
+	// Converts a string produced by serialize (or a label from a Newick text) into node data.
+	deserialize?: (text: string) => D;
+
+	// If set, parsing errors are thrown instead of turning the text into a single node.
+	strictParsing?: boolean;
+
+	// Accessible name of the tree for assistive technologies.
+	ariaLabel?: string;
+	// Returns the message announced to screen readers after a node is added,
+	// removed or moved within the tree. If several nodes are changed together
+	// (e.g., all selected nodes are removed), the function is called once
+	// with the first of them and the number of changed nodes.
+	announcement?: (change: 'add'|'remove'|'move', node: SVGTreeNode<D>, count: number) => string;
+
+	// Maps values of KeyboardEvent.key to actions performed when the tree has focus.
+	// A custom action is a function called with the tree and the event.
+	// The bindings are added to the default ones; map a key to null to unbind it,
+	// or set the keymap to null to disable the keyboard interaction.
+	keymap?: { [key: string]: KeyAction|((tree: SVGTree<D>, event: KeyboardEvent) => void) };
 
 	// Event listeners
 	onrender?: ()=>void;
-	onselect?: (node: Tree) => void;
+	// Called with the active node and all selected nodes after the selection changes
+	onselect?: (node: Tree<D>, selection: Tree<D>[]) => void;
 	onchange?: () => void
+	onerror?: (error: NewickParseError) => void;
 
 	// full options also include
 	_canSelectNodes?: boolean;
@@ -119,31 +411,123 @@ export interface Options {
 	_dragToRearrange?: boolean;
 }
 
-type TreeMaker = (src: string) => Tree;
+/**
+ * Action performed on a key press:
+ * - 'parent', 'firstChild', 'previous', 'next' select a node related to the selected one;
+ * - 'up', 'down', 'left', 'right' select a related node in the corresponding direction
+ *   according to the orientation of the tree;
+ * - 'root', 'last' select the root or the last visible node in the depth-first order;
+ * - 'edit' focuses the editing input, 'deselect' clears the selection;
+ * - 'remove', 'insert', 'toggle' remove the selected node, insert content into it,
+ *   or collapse / expand it.
+ */
+export type KeyAction = 'parent'|'firstChild'|'previous'|'next'|'up'|'down'|'left'|'right'|
+	'root'|'last'|'edit'|'deselect'|'remove'|'insert'|'toggle';
+
+/**
+ * JSON representation of a tree node and its descendants.
+ */
+export interface TreeJSON {
+	label?: string;					// node data converted to a string
+	children?: TreeJSON[];
+	attributes?: { [key: string]: any };
+	collapsed?: boolean;
+	branchLength?: number;
+	comments?: string[];
+	marker?: NodeMarker;
+	markerColor?: string;
+	markerSize?: number;
+	markerImage?: string;
+}
+
+/**
+ * Options of animated transitions.
+ */
+export interface AnimationOptions {
+	duration: number;		// duration in milliseconds
+	// Name of an easing function from SVGTree.easings or a function mapping the elapsed
+	// part of the duration (from 0 to 1) onto the progress of the animation
+	easing?: string|((t: number) => number);
+}
+
+// Inline styles as CSS property names and values, e.g., { 'font-weight': 'bold' }
+export type InlineStyle = { [property: string]: string };
+
+/**
+ * Classes and inline styles returned by the nodeStyle option.
+ */
+export interface NodeStyle {
+	classes?: string[];			// classes of the node element
+	label?: InlineStyle;		// styles of the label, e.g., font and fill
+	background?: InlineStyle;	// styles of the label background
+}
+
+/**
+ * Classes and inline styles returned by the edgeStyle option.
+ */
+export interface EdgeStyle {
+	classes?: string[];
+	style?: InlineStyle;		// e.g., stroke and stroke width
+}
+
+/**
+ * End of an edge passed to edge renderers.
+ */
+export interface EdgeEnd {
+	x: number;
+	y: number;
+	angle?: number;		// polar angle in radians (radial orientation only)
+}
+
+// Returns SVG path data for the edge between a parent and its child
+export type EdgeRenderer = (parent: EdgeEnd, child: EdgeEnd, orientation: Orientation) => string;
+
+/**
+ * Options for exporting a tree as a standalone SVG document.
+ */
+export interface SVGExportOptions {
+	padding?: number;		// padding around the tree; defaults to the padding display option
+	background?: string;	// background color; the background is transparent if not set
+}
+
+type TreeMaker<D> = (data: D) => Tree<D>;
+
+/**
+ * Default conversion of node data into a string.
+ */
+function stringify(data: any): string {
+	return ((data === null) || (data === undefined)) ? '' : String(data);
+}
 
 /**
- * Semi-generic base class used for SVGTreeNode
+ * Semi-generic base class used for SVGTreeNode.
+ * D is the type of data associated with nodes.
  */
-abstract class Tree {
-	children: Tree[];
-	protected parent: Tree;
-	options?: Options;
+abstract class Tree<D = any> {
+	children: Tree<D>[];
+	protected parent: Tree<D>;
+	options?: Options<D>;
 	collapsed?: boolean;
-	_leafPosition?:number;
+	branchLength: number|null;	// length of the edge to the parent, or null if not specified
+	comments: string[];			// comments attached to the node (without brackets)
+	attributes: { [key: string]: any };	// arbitrary attributes of the node
 
 	/**
 	 * Creates a new tree node.
-	 * @param {String} data associated with the node
+	 * @param {Object} data associated with the node
 	 */
 	protected constructor(
-		public data: any = ''	// data associated with the node
+		public data: D	// data associated with the node
 	) {
 		this.parent = null;
 		this.children = [];
+		this.branchLength = null;
+		this.comments = [];
+		this.attributes = {};
 	}
 
 	// Was children.remove monkeypatch
-	removeChild(elem: Tree) {
+	removeChild(elem: Tree<D>) {
 		const idx = this.children.indexOf(elem);
 		if (idx >= 0)
 			this.children.splice(idx, 1);
@@ -154,7 +538,7 @@ abstract class Tree {
 	 *
 	 * @param {Tree} child
 	 */
-	append(child: Tree) {
+	append(child: Tree<D>) {
 		if (child.parent !== null)
 			child.parent.removeChild(child);
 		this.children.push(child);
@@ -167,7 +551,7 @@ abstract class Tree {
 	 * @param {Tree} child
 	 *    node to add as a child
 	 */
-	prepend(child: Tree) {
+	prepend(child: Tree<D>) {
 		if (child.parent !== null)
 			child.parent.removeChild(child);
 
@@ -175,7 +559,7 @@ abstract class Tree {
 		child.parent = this;
 	}
 
-	insert(child:Tree, position: number) {
+	insert(child:Tree<D>, position: number) {
 		if (child.parent == this) {
 			var currentPos = child.position();
 			if (currentPos < position) position--;
@@ -190,75 +574,250 @@ abstract class Tree {
 
 	/**
 	 * Parses Newick format representation of a tree.
+	 * Branch lengths and comments are stored in the corresponding nodes;
+	 * comments in NHX and similar formats are parsed into node attributes.
 	 *
 	 * @param {String} text
 	 *    tree representation
 	 * @param {Function} factory
 	 *    optional factory for creating nodes; it is called with one parameter - node data
+	 * @param {Function} deserialize
+	 *    optional function converting node labels into node data
+	 * @param {Boolean} strict
+	 *    if set, backslashes may only escape special characters
 	 * @returns {Tree}
 	 *    this tree
+	 * @throws {NewickParseError}
+	 *    if the text is not a valid Newick representation of a tree
 	 */
-	protected parseInto(text: string, factory: TreeMaker) {
-		var tokens = Tokenizer.tokenize(text);
-		var pos = tokens.length - 1;
-		var	parent: Tree = null;
-		var node: Tree = null;
+	protected parseInto(text: string, factory: TreeMaker<D>,
+		deserialize: (text: string) => D, strict?: boolean) {
+
+		var tokens = Tokenizer.tokenize(text, strict);
+		var parents: Tree<D>[] = [],
+			node: Tree<D> = this,
+			// 0 - nothing is known about the node, 1 - label is read, 2 - branch length is read
+			state = 0;
+
+		function unexpected(token: Token, description: string) {
+			var expected = (parents.length > 0) ? '\',\' or \')\'' : '\';\'';
+			return new NewickParseError('Unexpected ' + description, text, token.offset, expected);
+		}
 
-		while (pos >= 0) {
-			if ((pos < tokens.length - 1) && (tokens[pos + 1] == Tokenizer.PAR_LEFT)) {
-				// Node may not be here
-			} else {
-				var data = (typeof(tokens[pos]) == 'string') ? <string>tokens[pos] : '';
-				if (typeof(tokens[pos]) == 'string') pos--;
-
-				if (parent === null) {
-					this.data = data;
-					node = this;
-				} else {
-					node = factory(data);
-					parent.prepend(node);
-				}
+		// Unlabeled nodes have no data; errors of the user-supplied deserializer
+		// are reported as parsing errors
+		function parseLabel(token: Token): D {
+			if (token.text === '') return null;
+			try {
+				return deserialize(token.text);
+			} catch (e) {
+				throw new NewickParseError('Invalid label: ' + (e.message || e), text, token.offset);
 			}
+		}
 
-			if (tokens[pos] == Tokenizer.PAR_LEFT) {
-				if (pos > 0)
-					parent = parent.parent;
-			} else if (tokens[pos] == Tokenizer.PAR_RIGHT)
-				parent = node;
-			else if ((tokens[pos] == Tokenizer.COMMA) || (tokens[pos] == Tokenizer.SEMICOLON)) {
-				// Do nothing
+		this.data = null;
+		this.branchLength = null;
+		this.comments = [];
+		this.attributes = {};
+
+		for (var pos = 0; pos < tokens.length; pos++) {
+			var token = tokens[pos];
+
+			switch (token.type) {
+			case Tokenizer.PAR_LEFT:
+				if ((state > 0) || (node.children.length > 0))
+					throw unexpected(token, '\'(\'');
+				parents.push(node);
+				node = factory(null);
+				parents[parents.length - 1].append(node);
+				break;
+			case Tokenizer.COMMA:
+				if (parents.length === 0)
+					throw unexpected(token, '\',\'');
+				node = factory(null);
+				parents[parents.length - 1].append(node);
+				state = 0;
+				break;
+			case Tokenizer.PAR_RIGHT:
+				if (parents.length === 0)
+					throw unexpected(token, '\')\'');
+				node = parents.pop();
+				state = 0;
+				break;
+			case Tokenizer.LABEL:
+				if (state > 0)
+					throw unexpected(token, 'label');
+				node.data = parseLabel(token);
+				state = 1;
+				break;
+			case Tokenizer.COLON:
+				var next = tokens[pos + 1],
+					length = (next && (next.type == Tokenizer.LABEL) && (next.text !== '')) ?
+						Number(next.text) : NaN;
+				if (state > 1)
+					throw unexpected(token, '\':\'');
+				if (isNaN(length)) {
+					throw new NewickParseError('Invalid branch length', text,
+						next ? next.offset : text.length, 'number');
+				}
+				node.branchLength = length;
+				state = 2;
+				pos++;
+				break;
+			case Tokenizer.COMMENT:
+				var attrs = Tokenizer.parseAnnotation(token.text);
+				if (attrs) {
+					for (var key in attrs)
+						node.attributes[key] = attrs[key];
+				} else
+					node.comments.push(token.text);
+				break;
+			case Tokenizer.SEMICOLON:
+				if (parents.length > 0)
+					throw new NewickParseError('Unexpected \';\'', text, token.offset, '\')\'');
+				return this;
 			}
-
-			pos--;
 		}
 
+		if (parents.length > 0)
+			throw new NewickParseError('Unexpected end of text', text, text.length, '\')\'');
 		return this;
 	}
 
 	/**
 	 * Creates a Newick format representation of this node and all descendant nodes.
 	 *
+	 * @param {Function} serialize
+	 *    optional function converting node data into labels
 	 * @returns {String}
 	 */
-	newick() {
-		return this._recurrentNewick() + ';';
+	newick(serialize: (data: D) => string = stringify) {
+		return this._recurrentNewick(serialize) + ';';
 	}
 
-	private _recurrentNewick() {
+	private _recurrentNewick(serialize: (data: D) => string) {
 		var s = '';
 		if (this.children.length > 0) {
 			s += '(';
 			for (var i = 0; i < this.children.length; i++) {
 				var child = this.children[i];
-				s += child._recurrentNewick();
+				s += child._recurrentNewick(serialize);
 				if (i < this.children.length - 1) s += ',';
 			}
 			s += ')';
 		}
-		return s + Tokenizer.escape(this.data);
+		// Unlabeled nodes have no data
+		if (this.data !== null) s += Tokenizer.escape(serialize(this.data));
+		for (var i = 0; i < this.comments.length; i++)
+			s += '[' + this.comments[i] + ']';
+		if (this.branchLength !== null)
+			s += ':' + this.branchLength;
+		s += Tokenizer.annotation(this.attributes);
+		return s;
+	}
+
+	/**
+	 * Returns the value of an attribute of this node.
+	 *
+	 * @param {String} key
+	 *    attribute name
+	 * @returns {Object}
+	 *    attribute value, or undefined if the attribute is not set
+	 */
+	getAttr(key: string): any {
+		return Object.prototype.hasOwnProperty.call(this.attributes, key) ?
+			this.attributes[key] : undefined;
+	}
+
+	/**
+	 * Sets the value of an attribute of this node.
+	 *
+	 * @param {String} key
+	 *    attribute name
+	 * @param {Object} value
+	 *    attribute value; null or undefined removes the attribute
+	 */
+	setAttr(key: string, value: any) {
+		if ((value === null) || (value === undefined))
+			delete this.attributes[key];
+		else
+			this.attributes[key] = value;
 	}
 
+	/**
+	 * Returns a copy of the attribute map of this node.
+	 *
+	 * @returns {Object}
+	 */
+	attrs() {
+		var attrs: { [key: string]: any } = {};
+		for (var key in this.attributes)
+			attrs[key] = this.attributes[key];
+		return attrs;
+	}
+
+	/**
+	 * Creates a JSON representation of this node and all descendant nodes.
+	 *
+	 * @param {Function} serialize
+	 *    optional function converting node data into labels
+	 * @returns {Object}
+	 */
+	toJSON(serialize?: (data: D) => string): TreeJSON {
+		// JSON.stringify() calls this method with a string key
+		if (typeof serialize != 'function') serialize = stringify;
+
+		var json: TreeJSON = { label: (this.data === null) ? '' : serialize(this.data) };
+		if (this.children.length > 0) {
+			json.children = [];
+			for (var i = 0; i < this.children.length; i++)
+				json.children.push(this.children[i].toJSON(serialize));
+		}
+		if (Object.keys(this.attributes).length > 0)
+			json.attributes = this.attrs();
+		if (this.collapsed)
+			json.collapsed = true;
+		if (this.branchLength !== null)
+			json.branchLength = this.branchLength;
+		if (this.comments.length > 0)
+			json.comments = this.comments.slice();
+		return json;
+	}
 
+	/**
+	 * Loads a JSON representation of a tree into this node.
+	 *
+	 * @param {Object} json
+	 *    tree representation
+	 * @param {Function} factory
+	 *    factory for creating nodes; it is called with one parameter - node data
+	 * @param {Function} deserialize
+	 *    optional function converting node labels into node data
+	 * @returns {Tree}
+	 *    this tree
+	 */
+	protected loadJSON(json: TreeJSON, factory: TreeMaker<D>,
+		deserialize: (text: string) => D) {
+
+		var children = json.children || [];
+
+		// Unlabeled nodes have no data
+		const label = stringify(json.label);
+		this.data = (label === '') ? null : deserialize(label);
+		this.branchLength = (typeof json.branchLength == 'number') ? json.branchLength : null;
+		this.comments = (json.comments || []).slice();
+		this.attributes = {};
+		for (var key in (json.attributes || {}))
+			this.attributes[key] = json.attributes[key];
+		this.collapsed = !!json.collapsed && (children.length > 0);
+
+		for (var i = 0; i < children.length; i++) {
+			var child = factory(null);
+			this.append(child);
+			child.loadJSON(children[i], factory, deserialize);
+		}
+		return this;
+	}
 
 	/**
 	 * Checks if a node is a leaf (i.e., has no descendants).
@@ -274,7 +833,7 @@ abstract class Tree {
 	 *
 	 * @returns {Tree}
 	 */
-	abstract root(): Tree;
+	abstract root(): Tree<D>;
 
 	/**
 	 * Detaches this node from its parent.
@@ -302,7 +861,7 @@ abstract class Tree {
 	 * @returns {Number}
 	 */
 	depth() {
-		var depth = 0, node: Tree = this;
+		var depth = 0, node: Tree<D> = this;
 		while (node.parent) {
 			depth++;
 			node = node.parent;
@@ -317,7 +876,7 @@ abstract class Tree {
 	 * @returns {Tree}
 	 *    node that matches the given data, or null if nothing found
 	 */
-	find(matcher: any): Tree|null {
+	find(matcher: any): Tree<D>|null {
 		if (typeof(matcher) == 'function') {
 			// Just what we need
 		} else if (typeof(matcher.test) == 'function') {
@@ -333,7 +892,7 @@ abstract class Tree {
 			})(matcher);
 		}
 
-		var queue: Tree[] = [this],
+		var queue: Tree<D>[] = [this],
 			ptr = 0;
 
 		while (ptr < queue.length) {
@@ -354,8 +913,23 @@ abstract class Tree {
 const _hoverCls = 'hover',
 	_selectedCls = 'selected';
 
+// Classes reflecting user interaction, which are ignored when exporting trees.
+const _interactionClasses = [ _hoverCls, _selectedCls, 'drag', 'drop-move', 'drop-copy' ];
+
+// Style properties inlined when exporting trees.
+const _exportedStyles = [
+	'display', 'visibility', 'opacity',
+	'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+	'font-family', 'font-size', 'font-style', 'font-weight', 'text-anchor'
+];
+
+// Counter for unique identifiers of groups of tree items.
+var _groupCounter = 0;
+
 // Content type for drag operations.
 const SVGTree_contentType = 'application/x-newick';
+// Content type marking several dragged nodes, which are transferred as children of an unnamed node.
+const SVGTree_listContentType = 'application/x-newick-list';
 
 /**
  * Creates an SVG tag.
@@ -367,27 +941,349 @@ function svgTag(tag: string): SVGElement {
 	return document.createElementNS('http://www.w3.org/2000/svg', tag);
 }
 
-// Style of node rendered
-type NodeMarker = 'circle'|'square';
+/**
+ * Sets or removes an attribute of an element if its value differs from the current one.
+ *
+ * @param {Element} element
+ * @param {String} name
+ *    name of the attribute
+ * @param {String} value
+ *    new value of the attribute, or null to remove the attribute
+ */
+function updateAttribute(element: Element, name: string, value: string|null) {
+	if (value === null) {
+		if (element.hasAttribute(name))
+			element.removeAttribute(name);
+	} else if (element.getAttribute(name) !== value) {
+		element.setAttribute(name, value);
+	}
+}
+
+// Placement of a label relative to the node marker
+type LabelPosition = 'below'|'above'|'left'|'right'|'rotated';
+
+// Placement of labels in each orientation if the labelPosition option is not set
+const _defaultLabelPositions: { [orientation: string]: LabelPosition } = {
+	v: 'below',
+	h: 'right',
+	'v-reverse': 'above',
+	'h-reverse': 'left'
+};
+
+// Style of node rendered: one of the built-in or registered marker types
+type NodeMarker = string;
+
+// Creates the element of a marker of a certain size for a node
+export type MarkerFactory = (node: SVGTreeNode<any>, size: number) => SVGElement;
+// Moves the element of a marker so that it is centered on a point
+export type MarkerPositioner = (marker: SVGElement, x: number, y: number, size: number) => void;
+
+interface MarkerType {
+	factory: MarkerFactory;
+	positioner: MarkerPositioner;
+}
+
+// Classes and inline style properties applied to an element by a style callback
+interface AppliedStyle {
+	classes: string[];
+	properties: string[];
+}
+
+/**
+ * Applies classes and inline styles to an element, removing the ones applied previously.
+ *
+ * @param {Element} element
+ * @param {Array} classes
+ *    classes to apply, or null
+ * @param {Object} style
+ *    inline styles to apply, or null
+ * @param {Object} previous
+ *    classes and styles applied previously, or null
+ * @param {Array} retained
+ *    classes which must not be removed
+ * @returns {Object}
+ *    applied classes and styles
+ */
+function applyStyle(element: SVGElement, classes: string[], style: InlineStyle,
+	previous: AppliedStyle, retained: string[]): AppliedStyle {
+
+	var applied: AppliedStyle = { classes: classes || [], properties: [] }, i: number;
+	if (previous) {
+		for (i = 0; i < previous.classes.length; i++) {
+			const cls = previous.classes[i];
+			if ((applied.classes.indexOf(cls) < 0) && (retained.indexOf(cls) < 0))
+				element.classList.remove(cls);
+		}
+		for (i = 0; i < previous.properties.length; i++)
+			element.style.removeProperty(previous.properties[i]);
+	}
+
+	for (i = 0; i < applied.classes.length; i++)
+		element.classList.add(applied.classes[i]);
+	for (var property in style) {
+		element.style.setProperty(property, style[property]);
+		applied.properties.push(property);
+	}
+	return applied;
+}
+
+/**
+ * Truncates the text of an element with an ellipsis, so that it fits into a certain width.
+ *
+ * @param {SVGTextContentElement} element
+ *    text or tspan element containing the text
+ * @param {String} text
+ * @param {Number} maxWidth
+ *    maximal width in pixels
+ * @returns {Boolean}
+ *    whether the text has been truncated
+ */
+function truncateText(element: SVGTextContentElement, text: string, maxWidth: number) {
+	var width = element.getComputedTextLength();
+	if (width <= maxWidth) return false;
+
+	// Start from the length estimated by the average character width
+	var length = Math.min(text.length - 1, Math.floor(text.length * maxWidth / width));
+	do {
+		element.textContent = text.substring(0, length) + '\u2026';
+		length--;
+	} while ((length >= 0) && (element.getComputedTextLength() > maxWidth));
+	return true;
+}
+
+/**
+ * Positions a marker with the center defined by 'cx' and 'cy' attributes (e.g., a circle).
+ */
+function positionByCenter(marker: SVGElement, x: number, y: number) {
+	marker.setAttribute('cx', x.toString());
+	marker.setAttribute('cy', y.toString());
+}
+
+/**
+ * Positions a marker with the top left corner defined by 'x' and 'y' attributes
+ * (e.g., a rectangle or an image).
+ */
+function positionByCorner(marker: SVGElement, x: number, y: number, size: number) {
+	marker.setAttribute('x', (x - size / 2).toString());
+	marker.setAttribute('y', (y - size / 2).toString());
+}
+
+/**
+ * Positions a marker drawn around the origin (e.g., a polygon) by translating it.
+ */
+function positionByTransform(marker: SVGElement, x: number, y: number) {
+	marker.setAttribute('transform', 'translate(' + x + ' ' + y + ')');
+}
+
+// HTML target together with the node it currently belongs to. Listeners of the target
+// refer to the node through the binding, so that the target can be reused by another node.
+interface TargetBinding<D> {
+	target: HTMLElement;
+	node: SVGTreeNode<D>;
+}
+
+// Drawn state of a node: the center of its marker, its polar angle (in the radial
+// orientation) and the points of the edge leading to it
+interface NodeState {
+	x: number;
+	y: number;
+	angle?: number;
+	parentAngle?: number;
+	edge: number[];
+}
+
+// Transition of a node between two states. Exiting nodes are removed after the transition.
+interface Tween<D> {
+	node: SVGTreeNode<D>;
+	from: NodeState;
+	to: NodeState;
+	exit: boolean;
+}
+
+/**
+ * Creates a state of a node collapsed into a point, e.g., for nodes growing out of
+ * their parent or shrinking into it.
+ *
+ * @param {Object} point
+ *    state providing the position and the angle
+ * @param {Number} nEdgePoints
+ *    number of coordinates in the edge polyline
+ */
+function pointState(point: NodeState, nEdgePoints: number): NodeState {
+	var edge: number[] = [];
+	for (var i = 0; i < nEdgePoints; i += 2)
+		edge.push(point.x, point.y);
+	return { x: point.x, y: point.y, angle: point.angle, parentAngle: point.angle, edge: edge };
+}
+
+/**
+ * Interpolates between two node states. Edges with a different number of points
+ * are padded with their last point.
+ *
+ * @param {Number} t
+ *    progress of the transition from 0 to 1
+ */
+function interpolateState(from: NodeState, to: NodeState, t: number): NodeState {
+	function mix(a: number, b: number) {
+		return (a === undefined) ? b : ((b === undefined) ? a : a + (b - a) * t);
+	}
+
+	var edge: number[] = [],
+		length = Math.max(from.edge.length, to.edge.length);
+	for (var i = 0; i < length; i++) {
+		const j = (i % 2) - 2;
+		edge.push(mix(
+			(i < from.edge.length) ? from.edge[i] : from.edge[from.edge.length + j],
+			(i < to.edge.length) ? to.edge[i] : to.edge[to.edge.length + j]));
+	}
+
+	return {
+		x: mix(from.x, to.x),
+		y: mix(from.y, to.y),
+		angle: mix(from.angle, to.angle),
+		parentAngle: mix(from.parentAngle, to.parentAngle),
+		edge: edge
+	};
+}
+
+/**
+ * Returns the point at a certain polar angle and radius.
+ */
+function polar(radius: number, angle: number): EdgeEnd {
+	return { x: radius * Math.cos(angle), y: radius * Math.sin(angle), angle: angle };
+}
+
+/**
+ * Renders a straight edge.
+ */
+function straightEdge(parent: EdgeEnd, child: EdgeEnd) {
+	return ['M', parent.x, parent.y, 'L', child.x, child.y].join(' ');
+}
+
+/**
+ * Renders an edge consisting of a segment along the leaf axis and a segment
+ * along the depth axis. In the radial orientation, the first segment is an arc
+ * around the center.
+ */
+function angularEdge(parent: EdgeEnd, child: EdgeEnd, orientation: Orientation) {
+	if (orientation == 'radial') {
+		const radius = Math.sqrt(parent.x * parent.x + parent.y * parent.y),
+			delta = child.angle - parent.angle;
+		if ((radius === 0) || (delta === 0))
+			return straightEdge(parent, child);
+
+		const corner = polar(radius, child.angle);
+		return ['M', parent.x, parent.y,
+			'A', radius, radius, 0, (Math.abs(delta) > Math.PI) ? 1 : 0, (delta > 0) ? 1 : 0,
+			corner.x, corner.y, 'L', child.x, child.y].join(' ');
+	}
+
+	const corner = isHorizontal(orientation) ?
+		{ x: parent.x, y: child.y } : { x: child.x, y: parent.y };
+	return ['M', parent.x, parent.y, 'L', corner.x, corner.y, 'L', child.x, child.y].join(' ');
+}
+
+/**
+ * Renders a smooth cubic Bézier curve leaving the parent and entering the child
+ * along the depth axis.
+ */
+function diagonalEdge(parent: EdgeEnd, child: EdgeEnd, orientation: Orientation) {
+	var c1: EdgeEnd, c2: EdgeEnd;
+	if (orientation == 'radial') {
+		const radius = (Math.sqrt(parent.x * parent.x + parent.y * parent.y) +
+			Math.sqrt(child.x * child.x + child.y * child.y)) / 2;
+		c1 = polar(radius, parent.angle);
+		c2 = polar(radius, child.angle);
+	} else if (isHorizontal(orientation)) {
+		const x = (parent.x + child.x) / 2;
+		c1 = { x: x, y: parent.y };
+		c2 = { x: x, y: child.y };
+	} else {
+		const y = (parent.y + child.y) / 2;
+		c1 = { x: parent.x, y: y };
+		c2 = { x: child.x, y: y };
+	}
+	return ['M', parent.x, parent.y, 'C', c1.x, c1.y, c2.x, c2.y, child.x, child.y].join(' ');
+}
+
+/**
+ * Renders an angular edge with a rounded corner. In the radial orientation,
+ * the edge is the same as an angular one.
+ */
+function elbowEdge(parent: EdgeEnd, child: EdgeEnd, orientation: Orientation) {
+	if (orientation == 'radial')
+		return angularEdge(parent, child, orientation);
+
+	const maxRadius = 8,
+		dx = child.x - parent.x, dy = child.y - parent.y,
+		radius = Math.min(maxRadius, Math.abs(dx) / 2, Math.abs(dy) / 2),
+		sx = (dx > 0) ? 1 : -1, sy = (dy > 0) ? 1 : -1;
+	if (radius === 0)
+		return angularEdge(parent, child, orientation);
+
+	if (isHorizontal(orientation)) {
+		return ['M', parent.x, parent.y,
+			'L', parent.x, child.y - sy * radius,
+			'Q', parent.x, child.y, parent.x + sx * radius, child.y,
+			'L', child.x, child.y].join(' ');
+	} else {
+		return ['M', parent.x, parent.y,
+			'L', child.x - sx * radius, parent.y,
+			'Q', child.x, parent.y, child.x, parent.y + sy * radius,
+			'L', child.x, child.y].join(' ');
+	}
+}
 
-export class SVGTreeNode extends Tree {
-	children: SVGTreeNode[];
-	protected parent: SVGTreeNode;
-	private x: number;
-	private y: number;
+export class SVGTreeNode<D = any> extends Tree<D> {
+	children: SVGTreeNode<D>[];
+	protected parent: SVGTreeNode<D>;
+	private x = 0;
+	private y = 0;
 	svgEdge: SVGElement;
 	svgNode: SVGGraphicsElement;
 	private svgMarker: SVGElement;
 	private readonly svgLabel: SVGTextElement;
 	private _renderedMarker: NodeMarker;
+	private _renderedMarkerSize: number;
 	private _markerColor?: string;
 	private svgLabelBg?: SVGElement;
-	private _leftMargin?: number[];
-	private _rightMargin?: number[];
+	private svgEdgeLabel?: SVGTextElement;
+	private svgEdgeLabelBg?: SVGElement;
+	private _labelLines: SVGElement[];		// tspan elements of a multi-line label
+	private _htmlLabel?: SVGElement;		// foreignObject element in the HTML label mode
+	// Anchor point, text anchor and vertical alignment of the label set by label renderers,
+	// together with the node position and whether the label is rotated
+	private _labelAnchor?: {
+		x: number, y: number, anchor: string, align: number,
+		nodeX: number, nodeY: number, rotated: boolean
+	};
+	private _edgePoints: number[];
+	private _angle?: number;
+	private _parentAngle?: number;
+	// Level and position among siblings determined by the last layout
+	private _depth: number;
+	private _index: number;
+	private _labelBox?: LabelBox;
+	_dirty: boolean;				// whether the label and marker need to be updated
 	marker?: NodeMarker;
+	markerSize?: number;			// size of the marker; inherited from the owner if not set
+	markerImage?: string;			// URL of the image for the 'image' marker
+	private _classes: string[];		// classes added with addClass()
+	private _appliedStyles?: { [element: string]: AppliedStyle };
+	private _backgroundStyle?: InlineStyle;	// style for the label background once it is created
+	private _labelStyle?: string;			// classes and label style affecting the label size
+	private _fontSize?: number;				// measured font size of the label
 	htmlTarget?: HTMLElement;
-
-	constructor(data: any, private readonly owner: SVGTree) {
+	_group?: HTMLElement;				// group of the targets of children, owned by the target
+	private _targetBinding?: TargetBinding<D>;
+	// Animation state: the drawn state while the node is animated, the state
+	// the next transition starts from, and the node this node shrinks into
+	// while it disappears
+	_drawn?: NodeState;
+	private _from?: NodeState;
+	_exitAnchor?: SVGTreeNode<D>;
+
+	constructor(data: D, private readonly owner: SVGTree<D>) {
 		super(data);
 
 		this.x = 0;
@@ -402,83 +1298,197 @@ export class SVGTreeNode extends Tree {
 		labelGroup.appendChild(this.svgLabel);
 		this.svgNode.appendChild(labelGroup);
 
+		// User should be able to select nodes by clicking the label
+		var self = this;
+		this.svgNode.addEventListener('click', function(event) {
+			if (self.owner.options._canSelectNodes) self._onclick(event);
+		});
+
 		this._renderedMarker = null; // currently rendered marker type
+		this._renderedMarkerSize = null;
+		this._labelLines = [];
+		this._htmlLabel = this._labelAnchor = null;
+		this.svgEdgeLabel = this.svgEdgeLabelBg = null;
+		this._classes = [];
+		this._appliedStyles = this._backgroundStyle = this._labelStyle = null;
+		this._fontSize = null;
+		this._labelBox = null;
+		this._depth = this._index = 0;
+		this._group = null;
+		this._dirty = true;
+		this._drawn = this._from = this._exitAnchor = null;
 		this.collapsed = false;
 	}
 
-	parse(data: string) {
-		this.parseInto(data, (data: string) =>
-			new SVGTreeNode(data, this.owner)
+	parse(data: string, strict?: boolean) {
+		this.parseInto(data, (data: D) =>
+			new SVGTreeNode(data, this.owner),
+			this.owner.options.deserialize,
+			strict
 		);
 		return this;
 	}
 
-	root(): SVGTreeNode {
-		var root: SVGTreeNode = this;
-		while (root.parent !== null)
-			root = root.parent;
-		return root;
-	}
-
 	/**
-	 * Returns an array containing this node and all its descendants in the order
-	 * of a breadth-first search (each parent before its children).
+	 * Creates a Newick format representation of this node and all descendant nodes
+	 * using the serialize option of the owner tree.
 	 *
-	 * @returns {Array}
-	 *    array of nodes
+	 * @returns {String}
 	 */
-	queue():SVGTreeNode[] {
-		var queue: SVGTreeNode[] = [ this ],
-			ptr = 0;
-		while (ptr < queue.length) {
-			var node = queue[ptr];
-			for (var i = 0; i < node.children.length; i++)
-				queue.push(node.children[i]);
-			ptr++;
-		}
-		return queue;
+	newick() {
+		return super.newick(this.owner.options.serialize);
 	}
 
 	/**
-	 * Renders a circle for a tree node.
+	 * Loads a JSON representation of a tree into this node.
+	 *
+	 * @param {Object} json
+	 * @returns {SVGTreeNode}
+	 *    this node
 	 */
-	circleMarker() {
+	fromJSON(json: TreeJSON) {
+		this.loadJSON(json, (data: D) =>
+			new SVGTreeNode(data, this.owner),
+			this.owner.options.deserialize
+		);
+		return this;
+	}
+
+	protected loadJSON(json: TreeJSON, factory: TreeMaker<D>, deserialize: (text: string) => D) {
+		super.loadJSON(json, factory, deserialize);
+		this.marker = json.marker;
+		this.markerSize = json.markerSize;
+		this.markerImage = json.markerImage;
+		if (json.markerColor)
+			this.setMarkerColor(json.markerColor);
+		return this;
+	}
+
+	/**
+	 * Creates a JSON representation of this node and all descendant nodes
+	 * using the serialize option of the owner tree. Unlike Newick format,
+	 * the representation retains node attributes, markers and collapsed state.
+	 *
+	 * @returns {Object}
+	 */
+	toJSON(): TreeJSON {
+		var json = super.toJSON(this.owner.options.serialize);
+		if (this.marker)
+			json.marker = this.marker;
+		if (this._markerColor)
+			json.markerColor = this._markerColor;
+		if (this.markerSize)
+			json.markerSize = this.markerSize;
+		if (this.markerImage)
+			json.markerImage = this.markerImage;
+		return json;
+	}
+
+	root(): SVGTreeNode<D> {
+		var root: SVGTreeNode<D> = this;
+		while (root.parent)
+			root = root.parent;
+		return root;
+	}
+
+	/**
+	 * Returns an array containing this node and all its descendants in the order
+	 * of a breadth-first search (each parent before its children).
+	 *
+	 * @returns {Array}
+	 *    array of nodes
+	 */
+	queue():SVGTreeNode<D>[] {
+		var queue: SVGTreeNode<D>[] = [ this ],
+			ptr = 0;
+		while (ptr < queue.length) {
+			var node = queue[ptr];
+			for (var i = 0; i < node.children.length; i++)
+				queue.push(node.children[i]);
+			ptr++;
+		}
+		return queue;
+	}
+
+	/**
+	 * Renders a circle for a tree node.
+	 */
+	circleMarker(size = 8) {
 		var svgMarker = svgTag('circle');
-		svgMarker.setAttribute('r', '4');
+		svgMarker.setAttribute('r', (size / 2).toString());
 		return svgMarker;
 	}
 
 	/**
 	 * Renders a square for a tree node.
 	 */
-	squareMarker() {
-		var sz = '8';
+	squareMarker(size = 8) {
+		var sz = size.toString();
 		var svgMarker = svgTag('rect');
 		svgMarker.setAttribute('width', sz);
 		svgMarker.setAttribute('height', sz);
 		return svgMarker;
 	}
 
+	/**
+	 * Renders a triangle for a tree node.
+	 */
+	triangleMarker(size = 8) {
+		const r = size / 2;
+		var svgMarker = svgTag('polygon');
+		svgMarker.setAttribute('points', [0, -r, r, r, -r, r].join(' '));
+		return svgMarker;
+	}
+
+	/**
+	 * Renders a diamond for a tree node.
+	 */
+	diamondMarker(size = 8) {
+		const r = size / 2;
+		var svgMarker = svgTag('polygon');
+		svgMarker.setAttribute('points', [0, -r, r, 0, 0, r, -r, 0].join(' '));
+		return svgMarker;
+	}
+
+	/**
+	 * Renders the image set by setMarkerImage() for a tree node.
+	 */
+	imageMarker(size = 8) {
+		var sz = size.toString();
+		var svgMarker = svgTag('image');
+		svgMarker.setAttribute('width', sz);
+		svgMarker.setAttribute('height', sz);
+		svgMarker.setAttributeNS('http://www.w3.org/1999/xlink', 'href', this.markerImage || '');
+		return svgMarker;
+	}
+
+	/**
+	 * Renders an empty group instead of a visible marker.
+	 */
+	noMarker() {
+		return svgTag('g');
+	}
+
 	private _positionMarker() {
-		var marker = this.svgMarker;
-		switch (this._renderedMarker) {
-			case 'circle':
-				marker.setAttribute('cx', (this.x).toString());
-				marker.setAttribute('cy', (this.y).toString());
-				break;
-			case 'square':
-				var sz = 8;
-				marker.setAttribute('x', (this.x - sz / 2).toString());
-				marker.setAttribute('y', (this.y - sz / 2).toString());
-				break;
-		}
+		SVGTree.markers[this._renderedMarker].positioner(
+			this.svgMarker, this.x, this.y, this._renderedMarkerSize);
+	}
+
+	/**
+	 * Returns the size of the marker for this node.
+	 *
+	 * @returns {Number}
+	 */
+	_markerSize() {
+		return this.markerSize || this.owner.options.markerSize;
 	}
 
 	/**
 	 * Sets the marker for this node.
 	 *
 	 * @param {String} marker
-	 *    one of 'circle', 'square', or null.
+	 *    one of 'circle', 'square', 'triangle', 'diamond', 'image', 'none',
+	 *    a name of a registered marker, or null.
 	 *    null (the default value) means to inherit the marker type from the owner
 	 */
 	setMarker(marker?: NodeMarker|null) {
@@ -487,27 +1497,23 @@ export class SVGTreeNode extends Tree {
 		if (!marker) // Inherit from owner
 			marker = this.owner.options.nodes;
 
-		if (marker === this._renderedMarker) {
+		const size = this._markerSize();
+		if ((marker === this._renderedMarker) && (size === this._renderedMarkerSize)) {
 			// Only reposition the marker
 			this._positionMarker();
 			return;
 		}
 
+		const type = SVGTree.markers[marker];
+		if (!type)
+			throw 'Unknown marker type: ' + marker;
+
 		if (this.svgMarker)
 			this.svgMarker.remove();
-
-		switch (marker) {
-		case 'circle':
-			this.svgMarker = this.circleMarker();
-			break;
-		case 'square':
-			this.svgMarker = this.squareMarker();
-			break;
-		default:
-			throw 'Unknown marker type: ' + marker;
-		}
+		this.svgMarker = type.factory(this, size);
 
 		this._renderedMarker = marker;
+		this._renderedMarkerSize = size;
 		this._positionMarker();
 		this.setMarkerColor(this._markerColor);
 		this.svgMarker.classList.add('marker');
@@ -521,166 +1527,631 @@ export class SVGTreeNode extends Tree {
 		}
 	}
 
+	/**
+	 * Adds a class to the elements of this node and the edge leading to it.
+	 * Unlike classes returned by the nodeStyle option, the class is kept until
+	 * it is removed with removeClass().
+	 *
+	 * @param {String} cls
+	 */
+	addClass(cls: string) {
+		if (this._classes.indexOf(cls) < 0)
+			this._classes.push(cls);
+		this.svgNode.classList.add(cls);
+		if (this.svgEdge)
+			this.svgEdge.classList.add(cls);
+	}
+
+	/**
+	 * Removes a class added with addClass().
+	 *
+	 * @param {String} cls
+	 */
+	removeClass(cls: string) {
+		this._classes = this._classes.filter(function(c) { return c !== cls; });
+		this.svgNode.classList.remove(cls);
+		if (this.svgEdge)
+			this.svgEdge.classList.remove(cls);
+	}
+
+	/**
+	 * Applies classes and inline styles returned by the nodeStyle and edgeStyle options
+	 * of the owner tree.
+	 *
+	 * @param {Object} options
+	 *    tree display options
+	 */
+	_applyStyles(options: Options<D>) {
+		if (!options.nodeStyle && !options.edgeStyle && !this._appliedStyles)
+			return;
+
+		const nodeStyle = (options.nodeStyle && options.nodeStyle(this)) || { },
+			edgeStyle = (options.edgeStyle && this.svgEdge && options.edgeStyle(this)) || { },
+			previous = this._appliedStyles || { };
+
+		// Label styles are set on the label group, so that they do not interfere
+		// with the styles set when the label is positioned
+		this._appliedStyles = {
+			node: applyStyle(this.svgNode, nodeStyle.classes, null, previous.node, this._classes),
+			label: applyStyle(<SVGElement>this.svgLabel.parentNode, null, nodeStyle.label,
+				previous.label, this._classes)
+		};
+		this._backgroundStyle = nodeStyle.background;
+
+		// Fonts set by the classes or the label style change the size of the label
+		const labelStyle = JSON.stringify([ nodeStyle.classes || [], nodeStyle.label || { } ]);
+		if (labelStyle !== this._labelStyle) {
+			this._labelStyle = labelStyle;
+			this._labelBox = this._fontSize = null;
+		}
+
+		if (this.svgLabelBg) {
+			this._appliedStyles.background = applyStyle(this.svgLabelBg, null,
+				nodeStyle.background, previous.background, this._classes);
+		}
+		if (this.svgEdge) {
+			this._appliedStyles.edge = applyStyle(this.svgEdge, edgeStyle.classes,
+				edgeStyle.style, previous.edge, this._classes);
+		}
+	}
+
+	/**
+	 * Sets the size of the marker for this node.
+	 *
+	 * @param {Number} size
+	 *    size in pixels, or null to inherit the size from the owner
+	 */
+	setMarkerSize(size: number|null) {
+		this.markerSize = size;
+		this.owner._invalidate(this, false);
+	}
+
+	/**
+	 * Displays an image (e.g., an icon) as the marker for this node.
+	 *
+	 * @param {String} url
+	 *    URL of the image
+	 * @param {Number} size
+	 *    (optional) size of the image in pixels
+	 */
+	setMarkerImage(url: string, size?: number) {
+		this.markerImage = url;
+		if (size !== undefined)
+			this.markerSize = size;
+		this._renderedMarker = null;	// the image element needs to be recreated
+		this.setMarker('image');
+		this.owner._invalidate(this, false);
+	}
+
 	/**
 	 * Renders tree node text horizontally.
 	 */
 	hLabel() {
 		const leftMargin = 10, topMargin = 4;
-		const svgLabel = this.svgLabel;
-		const x = this.x + leftMargin,
-			y = this.y + topMargin;
-		svgLabel.setAttribute('x', x.toString());
-		svgLabel.setAttribute('y', y.toString());
-		svgLabel.style.setProperty('text-anchor', 'start');
+		(<SVGElement>(this.svgLabel.parentNode)).removeAttribute('transform');
+		this._moveLabel(this.x + leftMargin, this.y + topMargin, 'start', 0.5);
 	}
 
 	centeredHLabel() {
 		const topMargin = 20;
-		const svgLabel = this.svgLabel;
-		svgLabel.setAttribute('x', this.x.toString());
-		svgLabel.setAttribute('y', (this.y + topMargin).toString());
-		svgLabel.style.setProperty('text-anchor', 'middle');
+		(<SVGElement>(this.svgLabel.parentNode)).removeAttribute('transform');
+		this._moveLabel(this.x, this.y + topMargin, 'middle', 0);
 	}
 
 	/**
-	 * Renders tree node text vertically.
+	 * Renders tree node text horizontally to the left of the node.
+	 */
+	leftHLabel() {
+		const rightMargin = 10, topMargin = 4;
+		(<SVGElement>(this.svgLabel.parentNode)).removeAttribute('transform');
+		this._moveLabel(this.x - rightMargin, this.y + topMargin, 'end', 0.5);
+	}
+
+	/**
+	 * Renders tree node text horizontally above the node.
+	 */
+	aboveHLabel() {
+		const bottomMargin = 10;
+		(<SVGElement>(this.svgLabel.parentNode)).removeAttribute('transform');
+		this._moveLabel(this.x, this.y - bottomMargin, 'middle', 1);
+	}
+
+	/**
+	 * Renders tree node text vertically. The text reads away from the root,
+	 * i.e., upwards in the 'v-reverse' orientation and downwards otherwise.
 	 */
 	vLabel() {
 		var topMargin = 18, leftMargin = -4;
+		const up = (this.owner.options.orientation == 'v-reverse');
 
 		var svgLabel = this.svgLabel,
-			x = this.x + leftMargin,
-			y = this.y + topMargin;
+			x = this.x + (up ? -leftMargin : leftMargin),
+			y = this.y + (up ? -topMargin : topMargin);
+
+		y += up ? 10 : -10;
+		(<SVGElement>(svgLabel.parentNode)).setAttribute('transform',
+			'rotate(' + [up ? -90 : 90, x, y].join(' ') + ')');
+		this._moveLabel(x, y, 'start', 0.5);
+	}
+
+	/**
+	 * Renders tree node text along the radius in the radial orientation.
+	 * The text is rotated so that it reads outward from the center
+	 * and is never upside down.
+	 */
+	radialLabel() {
+		const margin = 10, topMargin = 4;
+		const svgLabel = this.svgLabel;
+		var degrees = (this._angle || 0) * 180 / Math.PI;
+		const flip = (degrees > 90) && (degrees < 270);
+		if (flip) degrees -= 180;
+
+		(<SVGElement>(svgLabel.parentNode)).setAttribute('transform',
+			'rotate(' + [degrees, this.x, this.y].join(' ') + ')');
+		this._moveLabel(this.x + (flip ? -margin : margin), this.y + topMargin,
+			flip ? 'end' : 'start', 0.5);
+	}
 
-		y -= 10;
-		(<SVGElement>(svgLabel.parentNode)).setAttribute('transform', 'rotate(' + [90, x, y].join(' ') + ')');
+	/**
+	 * Moves the label to a certain point.
+	 *
+	 * @param {Number} x
+	 * @param {Number} y
+	 *    baseline point of the first line of the label
+	 * @param {String} anchor
+	 *    text anchor ('start', 'middle' or 'end')
+	 * @param {Number} align
+	 *    vertical alignment of a label with multiple lines: 0 to place the lines below
+	 *    the point, 1 to place them above it, and 0.5 to center them
+	 */
+	private _moveLabel(x: number, y: number, anchor: string, align: number) {
+		var last = this._labelAnchor,
+			rotated = !!(<SVGElement>this.svgLabel.parentNode).getAttribute('transform');
+		if (last && ((last.x - last.nodeX !== x - this.x) || (last.y - last.nodeY !== y - this.y) ||
+			(last.anchor !== anchor) || (last.rotated !== rotated))) {
+			// The label has been placed differently relative to the node
+			this._labelBox = null;
+		}
+		this._labelAnchor = {
+			x: x, y: y, anchor: anchor, align: align,
+			nodeX: this.x, nodeY: this.y, rotated: rotated
+		};
+
+		const svgLabel = this.svgLabel;
 		svgLabel.setAttribute('x', x.toString());
 		svgLabel.setAttribute('y', y.toString());
+		svgLabel.style.setProperty('text-anchor', anchor);
+		this._layoutLabel();
 	}
 
-	_updateLabel() {
-		var label = this.svgLabel, options = this.owner.options;
-		label.textContent = this.data;
+	/**
+	 * Positions the lines of a multi-line label and the HTML content of the label
+	 * according to the anchor of the label.
+	 */
+	private _layoutLabel() {
+		const lineHeight = 1.2;	// in ems, so that the spacing follows the font size
+		var pos = this._labelAnchor, lines = this._labelLines;
+		if (!pos) return;
+
+		for (var i = 0; i < lines.length; i++) {
+			lines[i].setAttribute('x', pos.x.toString());
+			lines[i].setAttribute('dy', ((i === 0) ?
+				-(lines.length - 1) * lineHeight * pos.align : lineHeight) + 'em');
+		}
 
-		var summary: Element = label.querySelector('tspan');
-		if (this.collapsed) {
-			if (!summary) {
-				summary = svgTag('tspan');
-				summary.classList.add('summary');
-				summary.textContent = options.summary(this);
+		const html = this._htmlLabel;
+		if (html) {
+			// Align the content with the box of the first line of a text label
+			const fontSize = this._labelFontSize(),
+				width = parseFloat(html.getAttribute('width')),
+				height = parseFloat(html.getAttribute('height')),
+				shift = (pos.anchor == 'middle') ? width / 2 : ((pos.anchor == 'end') ? width : 0);
+			html.setAttribute('x', (pos.x - shift).toString());
+			html.setAttribute('y', (pos.y - fontSize + 2 - (height - fontSize) * pos.align).toString());
+		}
+	}
+
+	/**
+	 * Returns the font size of the label in pixels, which is determined by CSS
+	 * and the node style. The size is measured once after the label or its style changes.
+	 *
+	 * @returns {Number}
+	 */
+	private _labelFontSize() {
+		if (!this._fontSize) {
+			const style = window.getComputedStyle(this.svgLabel);
+			this._fontSize = parseFloat(style.fontSize) || 12;
+		}
+		return this._fontSize;
+	}
 
-				if (this.data.length > 0)
-					label.textContent += ' ';
+	/**
+	 * Returns the polar angle of this node in degrees (radial orientation only).
+	 *
+	 * @returns {Number}
+	 */
+	angle() {
+		return (this._angle || 0) * 180 / Math.PI;
+	}
 
-				label.appendChild(summary);
+	_updateLabel() {
+		var label = this.svgLabel, options = this.owner.options,
+			group = <SVGElement>label.parentNode,
+			title: Element = group.querySelector('title');
+
+		label.textContent = '';
+		this._labelLines = [];
+		this._fontSize = null;
+		if (title) title.remove();
+
+		if (options.htmlLabel) {
+			this._updateHTMLLabel(options);
+		} else {
+			if (this._htmlLabel) {
+				this._htmlLabel.remove();
+				this._htmlLabel = null;
 			}
-		} else if (summary)
-			summary.remove();
-
-
-		if (options.labelBackgrounds) {
-			var background = this.svgLabelBg,
-				box = label.getBBox();
-			if (!background) {
-				// Create background for the label
-				background = this.svgLabelBg = svgTag('rect');
-				background.classList.add('label-bg');
-				label.parentNode.insertBefore(background, label);
+
+			const text = options.label(this.data);
+			if (this._setLabelText(text, options.maxLabelWidth)) {
+				// Show the full text of a truncated label on hover
+				title = svgTag('title');
+				title.textContent = text;
+				group.insertBefore(title, group.firstChild);
 			}
 
-			background.setAttribute('x', (box.x - 2).toString());
-			background.setAttribute('y', (box.y - 2).toString());
-			background.setAttribute('width', (box.width + 4).toString());
-			background.setAttribute('height', (box.height + 4).toString());
-			background.setAttribute('display', (box.width === 0) ? 'none' : 'inline');
+			if (this.collapsed) {
+				var summary = svgTag('tspan');
+				summary.classList.add('summary');
+				summary.textContent = ((label.textContent.length > 0) ? ' ' : '') +
+					options.summary(this);
+				label.appendChild(summary);
+			}
 		}
+		this._layoutLabel();
+
+		this._labelBox = null;
+		if (options.labelBackgrounds)
+			this._positionLabelBg();
+		else if (options.virtualize)
+			this.labelBox();	// the content box is calculated from label boxes
+
+		this._updateEdgeLabel(options);
 	}
 
 	/**
-	 * Renders a straight line for a tree edge.
+	 * Updates the text of the label on the edge leading to this node
+	 * according to the edgeLabel option.
+	 *
+	 * @param {Object} options
+	 *    tree display options
 	 */
-	directEdge() {
-		var parent = this.parent,
-			svgEdge = this.svgEdge ? this.svgEdge : svgTag('polyline');
-		svgEdge.setAttribute('points', [parent.x, parent.y, this.x, this.y].join(' '));
-		this.svgEdge = svgEdge;
+	private _updateEdgeLabel(options: Options<D>) {
+		var label = this.svgEdgeLabel;
+		if (!options.edgeLabel) {
+			if (label) {
+				(<SVGElement>label.parentNode).remove();
+				this.svgEdgeLabel = this.svgEdgeLabelBg = null;
+			}
+			return;
+		}
+
+		if (!label) {
+			var group = svgTag('g');
+			group.classList.add('edge-label');
+			label = this.svgEdgeLabel = <SVGTextElement>svgTag('text');
+			group.appendChild(label);
+			this.svgNode.insertBefore(group, this.svgNode.firstChild);
+		}
+		label.textContent = options.edgeLabel(this) || '';
+
+		if (options.edgeLabelBackgrounds && !this.svgEdgeLabelBg) {
+			this.svgEdgeLabelBg = svgTag('rect');
+			this.svgEdgeLabelBg.classList.add('edge-label-bg');
+			label.parentNode.insertBefore(this.svgEdgeLabelBg, label);
+		} else if (!options.edgeLabelBackgrounds && this.svgEdgeLabelBg) {
+			this.svgEdgeLabelBg.remove();
+			this.svgEdgeLabelBg = null;
+		}
+		this._positionEdgeLabel();
 	}
 
 	/**
-	 * Renders a pair of lines (|-) for a tree edge.
+	 * Places the edge label at the middle of the last segment of the edge
+	 * leading to this node. The text is rotated along the segment so that it is
+	 * never upside down (vertical text reads upwards), and is lifted a little above the segment.
 	 */
-	vhEdge() {
-		var parent = this.parent,
-			svgEdge = this.svgEdge ? this.svgEdge : svgTag('polyline');
-		svgEdge.setAttribute('points', [
-			parent.x, parent.y, parent.x, this.y, this.x, this.y
-		].join(' '));
-		this.svgEdge = svgEdge;
+	_positionEdgeLabel() {
+		const label = this.svgEdgeLabel, margin = 3;
+		if (!label) return;
+
+		var group = <SVGElement>label.parentNode,
+			points = this._edgePoints || [], n = points.length;
+		if ((n < 4) || (label.textContent.length === 0) ||
+			((points[n - 4] === this.x) && (points[n - 3] === this.y))) {
+			// The root or a degenerate edge
+			group.setAttribute('display', 'none');
+			return;
+		}
+
+		var x = (points[n - 4] + this.x) / 2,
+			y = (points[n - 3] + this.y) / 2,
+			degrees = Math.atan2(this.y - points[n - 3], this.x - points[n - 4]) * 180 / Math.PI;
+		if (degrees >= 90) degrees -= 180;
+		if (degrees < -90) degrees += 180;
+
+		group.removeAttribute('display');
+		group.setAttribute('transform', 'rotate(' + [degrees, x, y].join(' ') + ')');
+		label.setAttribute('x', x.toString());
+		label.setAttribute('y', (y - margin).toString());
+
+		var background = this.svgEdgeLabelBg;
+		if (background) {
+			var box = label.getBBox();
+			background.setAttribute('x', (box.x - 1).toString());
+			background.setAttribute('y', (box.y - 1).toString());
+			background.setAttribute('width', (box.width + 2).toString());
+			background.setAttribute('height', (box.height + 2).toString());
+		}
 	}
 
 	/**
-	 * Renders a pair of lines (-|) for a tree edge.
+	 * Sets the text of the label. Each line of a multi-line text is placed into
+	 * a separate tspan element.
+	 *
+	 * @param {String} text
+	 * @param {Number} maxWidth
+	 *    maximal width of a line, or null
+	 * @returns {Boolean}
+	 *    whether any line has been truncated
 	 */
-	hvEdge() {
-		var parent = this.parent,
-			svgEdge = this.svgEdge ? this.svgEdge : svgTag('polyline');
-		svgEdge.setAttribute('points', [
-			parent.x, parent.y, this.x, parent.y, this.x, this.y
-		].join(' '));
-		this.svgEdge = svgEdge;
+	private _setLabelText(text: string, maxWidth: number) {
+		var lines = text.split('\n'), truncated = false;
+		if (lines.length == 1) {
+			this.svgLabel.textContent = text;
+			return !!maxWidth && truncateText(this.svgLabel, text, maxWidth);
+		}
+
+		for (var i = 0; i < lines.length; i++) {
+			const line = <SVGTextContentElement>svgTag('tspan');
+			line.classList.add('line');
+			line.textContent = lines[i];
+			this.svgLabel.appendChild(line);
+			this._labelLines.push(line);
+			if (maxWidth && truncateText(line, lines[i], maxWidth))
+				truncated = true;
+		}
+		return truncated;
 	}
 
 	/**
-	 * Recursively determines leaf-related positions of the nodes of the tree.
-	 * E.g., if the tree is rendered horizontally, this position determines the Y coordinate.
+	 * Renders HTML content of the label in a foreignObject element
+	 * and sets the size of the element according to the content.
 	 *
-	 * @param {Number} start
-	 *    starting leaf position to assign to leaf nodes
-	 * @returns {Number}
-	 *    updated leaf position
+	 * @param {Object} options
+	 *    tree display options
 	 */
-	_setLeafPositions(start: number = 0): number {
+	private _updateHTMLLabel(options: Options<D>) {
+		var html = this._htmlLabel, content: HTMLElement;
+		if (!html) {
+			html = this._htmlLabel = svgTag('foreignObject');
+			content = document.createElement('div');
+			content.classList.add('html-label');
+			html.appendChild(content);
+			this.svgLabel.parentNode.appendChild(html);
+		} else {
+			content = <HTMLElement>html.firstChild;
+		}
 
-		if (this.isLeaf() || this.collapsed) {
-			this._leafPosition = start;
-			start++;
+		const data = options.htmlLabel(this.data);
+		if (typeof data === 'string') {
+			content.innerHTML = data;
 		} else {
-			// Median
-			const ch = this.children, len = ch.length;
-			for (var i = 0; i < len; i++)
-				start = ch[i]._setLeafPositions(start);
-
-			if (len % 2 === 1)
-				this._leafPosition = ch[(len - 1) / 2]._leafPosition;
-			else {
-				this._leafPosition = (ch[len / 2 - 1]._leafPosition +
-					ch[len / 2]._leafPosition) / 2;
+			content.textContent = '';
+			content.appendChild(data);
+		}
+
+		if (this.collapsed) {
+			var summary = document.createElement('span');
+			summary.classList.add('summary');
+			summary.textContent = ' ' + options.summary(this);
+			content.appendChild(summary);
+		}
+
+		// The content is measured with enough space around it
+		html.setAttribute('width', '10000');
+		html.setAttribute('height', '10000');
+		if (options.maxLabelWidth)
+			content.style.maxWidth = options.maxLabelWidth + 'px';
+		else
+			content.style.removeProperty('max-width');
+
+		if (content.scrollWidth > content.offsetWidth)
+			content.setAttribute('title', content.textContent);
+		else
+			content.removeAttribute('title');
+
+		html.setAttribute('width', content.offsetWidth.toString());
+		html.setAttribute('height', content.offsetHeight.toString());
+	}
+
+	/**
+	 * Positions the background of the label after the label has been updated or moved.
+	 */
+	_positionLabelBg() {
+		var background = this.svgLabelBg,
+			box = this.labelBox();
+		if (!background) {
+			// Create background for the label
+			background = this.svgLabelBg = svgTag('rect');
+			background.classList.add('label-bg');
+			this.svgLabel.parentNode.insertBefore(background, this.svgLabel);
+			if (this._backgroundStyle) {
+				this._appliedStyles.background = applyStyle(background, null,
+					this._backgroundStyle, null, this._classes);
 			}
 		}
-		return start;
+
+		background.setAttribute('x', (this.x + box.x - 2).toString());
+		background.setAttribute('y', (this.y + box.y - 2).toString());
+		background.setAttribute('width', (box.width + 4).toString());
+		background.setAttribute('height', (box.height + 4).toString());
+		background.setAttribute('display', (box.width === 0) ? 'none' : 'inline');
 	}
 
 	/**
-	 * Sets the position of this node in SVG coordinates.
+	 * Returns the bounding box of the label of this node relative to the node position.
+	 * The box is measured once after the label text changes.
 	 *
-	 * @param {Object} options
-	 *    display options
+	 * @returns {Object}
+	 */
+	labelBox(): LabelBox {
+		if (!this._labelBox) {
+			var box = (<SVGGraphicsElement>(this._htmlLabel || this.svgLabel)).getBBox();
+			this._labelBox = {
+				x: box.x - this.x,
+				y: box.y - this.y,
+				width: box.width,
+				height: box.height
+			};
+		}
+		return this._labelBox;
+	}
+
+	/**
+	 * Sets the position of this node and the edge leading to it
+	 * according to the layout of the tree.
+	 *
+	 * @param {Object} position
+	 *    position of the node in the layout
+	 * @returns {Boolean}
+	 *    whether the node or its edge has moved
 	 */
-	_setCoordinates(options: Options) {
-		var x = this.depth(),
-			y = this._leafPosition;
-		delete this._leafPosition;
+	_setPosition(position: NodePosition<SVGTreeNode<D>>) {
+		const parentAngle = position.parent ? position.parent.angle : undefined;
+		var moved = (this.x !== position.x) || (this.y !== position.y) ||
+			(this._angle !== position.angle) || (this._parentAngle !== parentAngle) ||
+			!this._edgePoints || (this._edgePoints.join(' ') !== position.edge.join(' '));
+
+		// In the radial orientation, the label placement depends on the angle
+		if (this._angle !== position.angle)
+			this._labelBox = null;
+
+		this.x = position.x;
+		this.y = position.y;
+		this._angle = position.angle;
+		this._parentAngle = parentAngle;
+		this._edgePoints = position.edge;
+		this._depth = position.depth;
+		this._index = position.index;
+		return moved;
+	}
 
-		x = options.depthDistance * x;
-		y = options.leafDistance * y;
+	/**
+	 * Renders a path for the edge leading to this node using the edge style
+	 * set in the options of the owner tree.
+	 */
+	_renderEdge() {
+		const options = this.owner.options,
+			renderer = SVGTree.edgeStyles[options.edges];
+		if (!renderer)
+			throw 'Unknown edge style: ' + options.edges;
+
+		var svgEdge = this.svgEdge, points = this._edgePoints;
+		if (!svgEdge) {
+			svgEdge = svgTag('path');
+			for (var i = 0; i < this._classes.length; i++)
+				svgEdge.classList.add(this._classes[i]);
+		}
+		svgEdge.setAttribute('d', renderer(
+			{ x: points[0], y: points[1], angle: this._parentAngle },
+			{ x: this.x, y: this.y, angle: this._angle },
+			options.orientation));
+		this.svgEdge = svgEdge;
+	}
 
-		if (options.orientation == 'h') {
-			this.x = x;
-			this.y = y;
+	/**
+	 * Returns the state of this node according to the current layout.
+	 *
+	 * @returns {Object}
+	 */
+	_state(): NodeState {
+		return {
+			x: this.x,
+			y: this.y,
+			angle: this._angle,
+			parentAngle: this._parentAngle,
+			edge: this._edgePoints || []
+		};
+	}
+
+	/**
+	 * Remembers the state a transition of this node should start from before the tree
+	 * is laid out anew. Nodes which are not rendered start from the state of their parent.
+	 * Parents must be processed before their children.
+	 */
+	_saveState() {
+		if (this.svgNode.parentNode) {
+			this._from = this._drawn || this._state();
+		} else if (this.parent && this.parent._from) {
+			this._from = pointState(this.parent._from, this.parent._from.edge.length);
 		} else {
-			this.x = y;
-			this.y = x;
+			this._from = null;
+		}
+	}
+
+	/**
+	 * Returns the transition of this node from the saved state to the current layout,
+	 * or null if the node does not need to be animated.
+	 *
+	 * @returns {Object}
+	 */
+	_tween(): Tween<D> {
+		var from = this._from, to = this._state();
+		this._from = null;
+
+		if (!from || ((from.x === to.x) && (from.y === to.y) && (from.angle === to.angle) &&
+			(from.parentAngle === to.parentAngle) && (from.edge.join(' ') === to.edge.join(' ')))) {
+			return null;
 		}
+		return { node: this, from: from, to: to, exit: false };
+	}
+
+	/**
+	 * Draws the marker, the label and the edge of this node in an intermediate state
+	 * of a transition. The layout position of the node is not changed.
+	 *
+	 * @param {Object} state
+	 *    state to draw
+	 * @param {Function} createLabel
+	 *    function positioning the label
+	 */
+	_drawState(state: NodeState, createLabel: Function) {
+		var x = this.x, y = this.y, angle = this._angle,
+			parentAngle = this._parentAngle, edge = this._edgePoints;
+		this.x = state.x;
+		this.y = state.y;
+		this._angle = state.angle;
+		this._parentAngle = state.parentAngle;
+		this._edgePoints = state.edge;
+
+		this._positionMarker();
+		createLabel.call(this);
+		if (this.svgLabelBg)
+			this._positionLabelBg();
+		if (this.svgEdge)
+			this._renderEdge();
+		this._positionEdgeLabel();
+
+		this.x = x;
+		this.y = y;
+		this._angle = angle;
+		this._parentAngle = parentAngle;
+		this._edgePoints = edge;
+
+		this._drawn = state;
+		if (this.htmlTarget)
+			this._positionTarget();
 	}
 
 	removeSVG(complete?: boolean) {
@@ -693,6 +2164,10 @@ export class SVGTreeNode extends Tree {
 				node.svgNode.remove();
 			if (node.htmlTarget)
 				node.htmlTarget.remove();
+			if (node._group) {
+				node._group.remove();
+				node._group = null;
+			}
 
 			if (complete) {
 				// XXX Is it really needed?
@@ -702,6 +2177,86 @@ export class SVGTreeNode extends Tree {
 		}
 	}
 
+	/**
+	 * Detaches the elements of this node when it leaves the view in the virtualized mode.
+	 * The HTML target is returned to the owner tree for reuse.
+	 */
+	_release() {
+		if (this.svgEdge)
+			this.svgEdge.remove();
+		this.svgNode.remove();
+		this.svgNode.classList.remove(_hoverCls);
+
+		if (this.htmlTarget) {
+			this.htmlTarget.remove();
+			this.htmlTarget.classList.remove(_selectedCls);
+			this.htmlTarget.classList.remove('drag');
+			this.owner._targetPool.push(this._targetBinding);
+			this.htmlTarget = this._targetBinding = null;
+		}
+	}
+
+	/**
+	 * Checks if this node or the edge leading to it intersects a rectangle.
+	 *
+	 * @param {Object} rect
+	 *    rectangle in SVG coordinates
+	 * @returns {Boolean}
+	 */
+	_inView(rect: { left: number, top: number, right: number, bottom: number }) {
+		var minX = this.x, maxX = this.x,
+			minY = this.y, maxY = this.y,
+			points = this._edgePoints || [];
+		for (var i = 0; i < points.length; i += 2) {
+			minX = Math.min(minX, points[i]);
+			maxX = Math.max(maxX, points[i]);
+			minY = Math.min(minY, points[i + 1]);
+			maxY = Math.max(maxY, points[i + 1]);
+		}
+		return (minX <= rect.right) && (maxX >= rect.left) &&
+			(minY <= rect.bottom) && (maxY >= rect.top);
+	}
+
+	/**
+	 * Returns the box occupied by the marker and the label of this node
+	 * in SVG coordinates. The label is taken into account only if it has been measured.
+	 *
+	 * @returns {Object}
+	 *    box with x, y, width and height fields
+	 */
+	_bounds(): LabelBox {
+		const markerSize = this._markerSize() / 2;
+		var left = -markerSize, top = -markerSize,
+			right = markerSize, bottom = markerSize,
+			box = this._labelBox;
+
+		if (box && (this._angle === undefined) && this._labelAnchor && this._labelAnchor.rotated) {
+			// The label is rotated by a right angle around its anchor (see vLabel)
+			const anchorX = this._labelAnchor.x - this.x, anchorY = this._labelAnchor.y - this.y,
+				up = (this.owner.options.orientation == 'v-reverse'),
+				dx = box.x - anchorX, dy = box.y - anchorY;
+			box = up ?
+				{ x: anchorX + dy, y: anchorY - dx - box.width, width: box.height, height: box.width } :
+				{ x: anchorX - dy - box.height, y: anchorY + dx, width: box.height, height: box.width };
+		}
+
+		if (box && (this._angle !== undefined)) {
+			// The label is rotated around the node
+			var radius = 0;
+			radius = Math.max(radius, Math.abs(box.x), Math.abs(box.x + box.width));
+			radius = Math.max(radius, Math.abs(box.y), Math.abs(box.y + box.height));
+			left = top = Math.min(left, -radius);
+			right = bottom = Math.max(right, radius);
+		} else if (box) {
+			left = Math.min(left, box.x);
+			top = Math.min(top, box.y);
+			right = Math.max(right, box.x + box.width);
+			bottom = Math.max(bottom, box.y + box.height);
+		}
+
+		return { x: this.x + left, y: this.y + top, width: right - left, height: bottom - top };
+	}
+
 	/**
 	 * Returns a queue containing this node and all its descendants in the order
 	 * of a breadth-first search (each parent before its children).
@@ -710,7 +2265,7 @@ export class SVGTreeNode extends Tree {
 	 *    array of nodes
 	 */
 	visualQueue() {
-		var queue: SVGTreeNode[] = [ this ];
+		var queue: SVGTreeNode<D>[] = [ this ];
 		var ptr = 0;
 		while (ptr < queue.length) {
 			var node = queue[ptr];
@@ -725,119 +2280,6 @@ export class SVGTreeNode extends Tree {
 		return queue;
 	}
 
-	private _calculateMargins() {
-		this._leftMargin = [ this._leafPosition ];
-		this._rightMargin = [ this._leafPosition ];
-		if (this.collapsed) return;
-
-		if (this.children.length > 0) {
-			this._leftMargin[0] = this.children[0]._leafPosition;
-		}
-		if (this.children.length > 0) {
-			var L = this.children.length;
-			this._rightMargin[0] = this.children[L - 1]._leafPosition;
-		}
-
-		for (var i = 0; i < this.children.length; i++) {
-			var margin = this.children[i]._leftMargin;
-			var d;
-			for (d = 0; d < margin.length; d++) {
-				if (d + 1 >= this._leftMargin.length) {
-					this._leftMargin[d + 1] = margin[d];
-				} else {
-					this._leftMargin[d + 1] = Math.min(margin[d], this._leftMargin[d + 1]);
-				}
-			}
-
-			margin = this.children[i]._rightMargin;
-			for (d = 0; d < margin.length; d++) {
-				if (d + 1 >= this._rightMargin.length)
-					this._rightMargin[d + 1] = margin[d];
-				else
-					this._rightMargin[d + 1] = Math.max(margin[d], this._rightMargin[d + 1]);
-			}
-		}
-	}
-
-	/**
-	 * Realignes the nodes after assigning initial leaf positions using
-	 * the corresponding recursive function.
-	 * The main idea is simple: each node is moved closer to the central (pivot) child
-	 * of its parent. To determine the maximal possible shift, we keep track of positions
-	 * of the leftmost and rightmost descendants of each node at each relative depth
-	 * (depth = 0 corresponds to the node itself, depth = 1 to its children, etc.).
-	 */
-	_realign() {
-		var MAX = 1000000;
-		var L, pivot, i, d, queue;
-
-		if (!this.collapsed && !this.isLeaf()) {
-			var ch = this.children;
-			L = ch.length;
-
-			pivot = (L % 2 == 1) ? ((L - 1) / 2) : (L / 2 - 1);
-			for (i = pivot; i >= 0; i--) ch[i]._realign();
-			for (i = pivot + 1; i < L; i++) ch[i]._realign();
-
-			if (L % 2 === 0)
-				this._leafPosition = (ch[pivot]._leafPosition + ch[pivot + 1]._leafPosition) / 2;
-			else
-				this._leafPosition = ch[pivot]._leafPosition;
-		}
-
-		if (!this.parent) {
-			queue = this.visualQueue();
-			for (i = 0; i < queue.length; i++) {
-				const node = queue[i];
-				delete node._leftMargin;
-				delete node._rightMargin;
-			}
-
-			return;
-		}
-
-		this._calculateMargins();
-
-		var pos = this.position(), siblings = this.parent.children;
-		L = siblings.length;
-		pivot = (L % 2 == 1) ? ((L - 1) / 2) : (L / 2 - 1);
-
-		if (pos == pivot) {
-			// No need for re-alignment
-		} else {
-			// Move node right or left according to the marginal positions of its siblings
-
-			var thisMargin = (pos < pivot) ? this._rightMargin : this._leftMargin,
-				dir = (pos < pivot) ? 1 : -1,
-				shift = MAX;
-
-			for (var si = pos + dir; (si >= 0) && (si < siblings.length); si += dir) {
-				var sibling = siblings[si],
-					siblingMargin = (pos < pivot) ? sibling._leftMargin : sibling._rightMargin;
-
-				if (siblingMargin) {
-					for (d = 0; d < siblingMargin.length; d++) {
-						var margin = (d < thisMargin.length) ? thisMargin[d] : -dir * MAX;
-						shift = Math.min(shift, dir * (siblingMargin[d] - margin) - 1);
-					}
-				}
-			}
-			shift *= dir;
-
-			this._leafPosition += shift;
-			for (d = 0; d < this._leftMargin.length; d++)
-				this._leftMargin[d] += shift;
-
-			for (d = 0; d < this._rightMargin.length; d++)
-				this._rightMargin[d] += shift;
-
-			// TODO This takes much time; could it be done better?
-			queue = this.visualQueue();
-			for (i = 1; i < queue.length; i++)
-				queue[i]._leafPosition += shift;
-		}
-	}
-
 	/**
 	 * Recursively adds or removes cls to all visible nodes and connecting edges
 	 * starting from a certain node. If force, then always apply class.
@@ -852,6 +2294,36 @@ export class SVGTreeNode extends Tree {
 		}
 	}
 
+	/**
+	 * Returns a visible node related to this node, which is used in keyboard navigation.
+	 *
+	 * @param {String} relation
+	 *    one of 'parent', 'firstChild', 'previous' and 'next' (for siblings),
+	 *    or 'last' for the last visible node of the tree in the depth-first order
+	 * @returns {SVGTreeNode}
+	 *    related node, or null if there is no such node
+	 */
+	_relative(relation: 'parent'|'firstChild'|'previous'|'next'|'last'): SVGTreeNode<D> {
+		const siblings = this.parent ? this.parent.children : [ this ],
+			position = siblings.indexOf(this);
+
+		switch (relation) {
+			case 'parent':
+				return this.parent || null;
+			case 'firstChild':
+				return (this.collapsed || this.isLeaf()) ? null : this.children[0];
+			case 'previous':
+				return (position > 0) ? siblings[position - 1] : null;
+			case 'next':
+				return (position < siblings.length - 1) ? siblings[position + 1] : null;
+			case 'last':
+				var node = this.root();
+				while (!node.collapsed && !node.isLeaf())
+					node = node.children[node.children.length - 1];
+				return node;
+		}
+	}
+
 	/**
 	 * Collapses this node, hiding all of its descendants.
 	 */
@@ -859,10 +2331,20 @@ export class SVGTreeNode extends Tree {
 		if ((this.children.length === 0) || this.collapsed)
 			return;
 
-		this.removeSVG();
+		// The node itself stays rendered, so that its target keeps the keyboard focus
+		if (this.owner._animates()) {
+			this.owner._exit(this.visualQueue().slice(1), this);
+		} else {
+			for (var i = 0; i < this.children.length; i++)
+				this.children[i].removeSVG();
+		}
+		if (this._group) {
+			this._group.remove();
+			this._group = null;
+		}
 		this.svgNode.classList.remove(_hoverCls);
 		this.collapsed = true;
-		this.owner.render();
+		this.owner._invalidate(this, true);
 		return this;
 	}
 
@@ -874,7 +2356,7 @@ export class SVGTreeNode extends Tree {
 
 		this.svgNode.classList.remove(_hoverCls);
 		this.collapsed = false;
-		this.owner.render();
+		this.owner._invalidate(this, true);
 		return this;
 	}
 
@@ -893,29 +2375,57 @@ export class SVGTreeNode extends Tree {
 	 * Removes this node and all its descendants from the tree.
 	 */
 	remove() {
-		this.removeSVG();
+		const parent = this.parent, owner = this.owner,
+			refocus = (owner.selectedNode === this) && owner._hasFocus();
+		if (parent && !this.isDetached())
+			owner._announce('remove', this);
+
+		if (this.parent && this.owner._animates())
+			this.owner._exit(this.visualQueue(), this.parent);
+		else
+			this.removeSVG();
 		if (this.parent) {
 			this.parent.removeChild(this);
 			this.parent = undefined;
 		}
 		this.owner._notifyChange();
-		this.owner.render();
+		this.owner._invalidate(null, true);
+
+		if (refocus && parent && !parent.isDetached()) {
+			// Keep the keyboard focus in the tree
+			owner.select(parent);
+			owner._focusSelected();
+		}
+	}
+
+	/**
+	 * Sets the value of an attribute of this node, notifies the owner tree
+	 * and redraws the node (labels and styles may depend on attributes).
+	 */
+	setAttr(key: string, value: any) {
+		var oldValue = this.getAttr(key);
+		super.setAttr(key, value);
+		if (this.getAttr(key) !== oldValue) {
+			this.owner._notifyChange();
+			this.owner._invalidate(this, false);
+		}
 	}
 
 	/**
 	 * Sets data (~label) for this node.
 	 */
-	setData(data: any) {
+	setData(data: D) {
 		if (this.data !== data) {
 			this.data = data;
 			this.owner._notifyChange();
-			this.owner.render(this);
+			this.owner._invalidate(this, false);
 		}
 	}
 
 	/**
 	 * Inserts content as a child of this node at a specific position.
-	 * The content may be either an existing node or a text in Newick format.
+	 * The content may be an existing node, a text in Newick format,
+	 * or a JSON representation of a tree.
 	 */
 	insertContent(node?: any, position?: number) {
 		if (position === undefined) position = this.children.length;
@@ -925,12 +2435,15 @@ export class SVGTreeNode extends Tree {
 			node = ';';
 		}
 
-		var oldPosition = null;
+		var oldPosition = null, moved = false;
 
 		if (typeof(node) == 'string')
 			node = this.owner.parse(node);
+		else if (!(node instanceof SVGTreeNode))
+			node = new SVGTreeNode(null, this.owner).fromJSON(node);
 		else {
 			if (node.parent == this) oldPosition = node.position();
+			moved = !!node.parent && !node.isDetached();
 
 			// Check if the node being inserted is the ancestor of the new parent node.
 			// If it is so, we must use special processing.
@@ -955,17 +2468,24 @@ export class SVGTreeNode extends Tree {
 
 		if (node.position() !== oldPosition) {
 			this.owner._notifyChange();
-			this.owner.render();
+			this.owner._invalidate(null, true);
+			if (!this.isDetached())
+				this.owner._announce(moved ? 'move' : 'add', node);
 		}
 
 		return node;
 	}
 
-	createTarget(options: Options) {
+	createTarget(options: Options<D>) {
 		var target;
 
 		if (this.htmlTarget) {
 			target = this.htmlTarget;
+		} else if (this.owner._targetPool.length > 0) {
+			// Reuse a target released by another node
+			this._targetBinding = this.owner._targetPool.pop();
+			this._targetBinding.node = this;
+			target = this.htmlTarget = this._targetBinding.target;
 		} else {
 			target = document.createElement('div');
 			if (options._canDragNodes) {
@@ -973,9 +2493,68 @@ export class SVGTreeNode extends Tree {
 			}
 			target.classList.add('svgtree-target');
 			this.htmlTarget = target;
+			this._targetBinding = { target: target, node: this };
 			this._addTargetListeners(options);
 		}
+		target.classList.toggle(_selectedCls, this.isSelected());
+		this.htmlTarget = target;
+		this._positionTarget();
+		this._updateAria();
+	}
+
+	/**
+	 * Checks if this node is selected.
+	 *
+	 * @returns {Boolean}
+	 */
+	isSelected() {
+		return this.owner._selection.has(this);
+	}
 
+	/**
+	 * Returns the accessible name of this node, i.e., the text of its label.
+	 *
+	 * @returns {String}
+	 */
+	accessibleName() {
+		const options = this.owner.options;
+		var name = options.htmlLabel ?
+			(this._htmlLabel ? this._htmlLabel.textContent : '') :
+			options.label(this.data);
+		return (name || '').replace(/\s+/g, ' ').trim();
+	}
+
+	/**
+	 * Updates the ARIA attributes of the HTML target, which represents this node
+	 * as an item of the tree for assistive technologies. Targets are positioned
+	 * independently of each other, so the targets of children are kept in a group
+	 * owned by the target (aria-owns) rather than nested in it.
+	 * The level and the position of the node are taken from the last layout,
+	 * and only the attributes that have changed are written.
+	 */
+	_updateAria() {
+		const target = this.htmlTarget;
+		if (!target) return;
+
+		updateAttribute(target, 'role', 'treeitem');
+		updateAttribute(target, 'aria-level', (this._depth + 1).toString());
+		updateAttribute(target, 'aria-setsize', (this.parent ? this.parent.children.length : 1).toString());
+		updateAttribute(target, 'aria-posinset', (this._index + 1).toString());
+		updateAttribute(target, 'aria-expanded',
+			this.isLeaf() ? null : (this.collapsed ? 'false' : 'true'));
+		updateAttribute(target, 'aria-selected', this.isSelected() ? 'true' : 'false');
+		updateAttribute(target, 'aria-label', this.accessibleName());
+		updateAttribute(target, 'aria-owns', this._group ? this._group.id : null);
+		// Only one item is reachable with the Tab key (roving tabindex)
+		const tabIndex = (this.owner._tabStop() === this) ? 0 : -1;
+		if (target.tabIndex !== tabIndex)
+			target.tabIndex = tabIndex;
+	}
+
+	/**
+	 * Moves the HTML target of this node to the center of the marker.
+	 */
+	private _positionTarget() {
 		var rect = this.offsetPos(),
 			cx = rect.left,
 			cy = rect.top;
@@ -983,21 +2562,33 @@ export class SVGTreeNode extends Tree {
 		// This assumes a target has 'margin-left' and 'margin-top' CSS properties specified
 		// in a way that coordinates (0, 0) correspond to the center of the target.
 
-		target.style.left = cx + 'px';
-		target.style.top = cy + 'px';
-		this.htmlTarget = target;
+		this.htmlTarget.style.left = cx + 'px';
+		this.htmlTarget.style.top = cy + 'px';
+	}
+
+	/**
+	 * Returns the coordinates of the center of the marker for this node
+	 * in the SVG coordinate system.
+	 *
+	 * @returns {Object}
+	 */
+	coordinates() {
+		return { x: this.x, y: this.y };
 	}
 
 	/**
 	 * Returns the client coordinates of the center of the marker for this node
-	 * relative to the offset parent (SVG tree container).
+	 * relative to the offset parent (SVG tree container). While the node is animated,
+	 * the coordinates follow the drawn marker.
 	 *
 	 * @returns {Object}
 	 */
 	offsetPos() {
+		const zoom = this.owner._zoom,
+			pos = this._drawn || this.coordinates();
 		return {
-			left: this.x - this.owner._offsetLeft,
-			top:  this.y - this.owner._offsetTop
+			left: pos.x * zoom - this.owner._offsetLeft,
+			top:  pos.y * zoom - this.owner._offsetTop
 		};
 	}
 
@@ -1006,53 +2597,59 @@ export class SVGTreeNode extends Tree {
 	 *
 	 * @param {Object} options
 	 */
-	private _addTargetListeners(options: Options) {
-		var self = this;
+	private _addTargetListeners(options: Options<D>) {
+		var binding = this._targetBinding;
 
 		if (options._canDragNodes) {
-			this.htmlTarget.addEventListener('dragstart', function(event) {
-				self._ondragstart(event);
+			binding.target.addEventListener('dragstart', function(event) {
+				binding.node._ondragstart(event);
 			});
-			this.htmlTarget.addEventListener('dragend', function(event) {
-				self._ondragend(event);
+			binding.target.addEventListener('dragend', function(event) {
+				binding.node._ondragend(event);
 			});
-			this.htmlTarget.addEventListener('dragenter', function(event) {
-				self._ondragenter(event);
+			binding.target.addEventListener('dragenter', function(event) {
+				binding.node._ondragenter(event);
 			});
-			this.htmlTarget.addEventListener('dragover', function(event) {
-				self._ondragover(event);
+			binding.target.addEventListener('dragover', function(event) {
+				binding.node._ondragover(event);
 			});
-			this.htmlTarget.addEventListener('dragleave', function(event) {
-				self._ondragleave(event);
+			binding.target.addEventListener('dragleave', function(event) {
+				binding.node._ondragleave(event);
 			});
-			this.htmlTarget.addEventListener('drop', function(event) {
-				self._ondrop(event);
+			binding.target.addEventListener('drop', function(event) {
+				binding.node._ondrop(event);
 			});
 		}
 
 		if (options._canSelectNodes) {
-			this.htmlTarget.addEventListener('click', function(event) {
-				if (self.owner.selectedNode === self) {
-					if (options._canCollapseNodes) self.toggle();
-				} else {
-					self.owner.select(self);
-				}
+			binding.target.addEventListener('click', function(event) {
+				binding.node._onclick(event);
 			});
-			this.htmlTarget.addEventListener('mouseenter', function(event) {
-				self.svgNode.classList.add(_hoverCls);
+			binding.target.addEventListener('mouseenter', function(event) {
+				binding.node.svgNode.classList.add(_hoverCls);
 			});
-			this.htmlTarget.addEventListener('mouseleave', function(event) {
-				self.svgNode.classList.remove(_hoverCls);
+			binding.target.addEventListener('mouseleave', function(event) {
+				binding.node.svgNode.classList.remove(_hoverCls);
 			});
+		}
+	}
 
-			// User should be able to select nodes by clicking the label
-			this.svgNode.addEventListener('click', function(event) {
-				if (self.owner.selectedNode === self) {
-					if (options._canCollapseNodes) self.toggle();
-				} else {
-					self.owner.select(self);
-				}
-			});
+	/**
+	 * Selects this node, or toggles it if it is already the only selected node.
+	 * With the Ctrl (Cmd) key, the node is added to or removed from the selection;
+	 * with the Shift key, the range of visible nodes up to this node is selected.
+	 *
+	 * @param {MouseEvent} event
+	 */
+	private _onclick(event: MouseEvent) {
+		if (event.ctrlKey || event.metaKey) {
+			this.owner.toggleSelection(this);
+		} else if (event.shiftKey) {
+			this.owner.selectRange(this);
+		} else if ((this.owner.selectedNode === this) && (this.owner.selectedNodes.length == 1)) {
+			if (this.owner.options._canCollapseNodes) this.toggle();
+		} else {
+			this.owner.select(this);
 		}
 	}
 
@@ -1060,46 +2657,71 @@ export class SVGTreeNode extends Tree {
 	 * Checks if this node is not currently displayed in SVG element.
 	 */
 	isDetached() {
-		return !this.root().svgNode.parentNode;
+		var root = this.root();
+		// A removed subtree stays in the SVG element while it disappears
+		return !root.svgNode.parentNode || !!root._exitAnchor;
 	}
 
 	private _ondragstart(event: DragEvent) {
 		var dragAsText = this.owner.options.dragAsText,
 			rearrange = this.owner.options._dragToRearrange;
 
-		this.owner.select(this);
+		// A selected node is dragged together with other selected nodes
+		if (!this.isSelected())
+			this.owner.select(this);
 		if (this.owner.nodeInput) {
 			this.owner.nodeInput.style.display = 'none';
 		}
+		var nodes = this.owner._dragNodes = this.owner._selectionRoots();
 		this.owner._dragNode = this;
 		this.owner.svgWrapper.classList.add('svgtree-drag');
 
+		// Several nodes are transferred as children of an unnamed node
+		var newick = (nodes.length == 1) ? this.newick() :
+			'(' + nodes.map(function(node) {
+				return node.newick().replace(/;$/, '');
+			}).join(',') + ');';
+
 		event.dataTransfer.effectAllowed = rearrange ? 'move' : 'copyMove';
 		try {
-			event.dataTransfer.setData(SVGTree_contentType, this.newick());
+			event.dataTransfer.setData(SVGTree_contentType, newick);
+			if (nodes.length > 1)
+				event.dataTransfer.setData(SVGTree_listContentType, newick);
 			if (dragAsText) {
-				event.dataTransfer.setData('text/plain', this.newick());
+				event.dataTransfer.setData('text/plain', newick);
 			}
 		} catch(e) {
-			event.dataTransfer.setData('Text', this.newick());
+			event.dataTransfer.setData('Text', newick);
 		}
 
-		this.htmlTarget.classList.add('drag');
-		this.toggleClass('drag', true);
+		for (var i = 0; i < nodes.length; i++) {
+			if (nodes[i].htmlTarget)
+				nodes[i].htmlTarget.classList.add('drag');
+			nodes[i].toggleClass('drag', true);
+		}
 	}
 
 	private _ondragend(event: DragEvent) {
-		this.htmlTarget.classList.remove('drag');
+		var nodes = this.owner._dragNodes;
+		for (var i = 0; i < nodes.length; i++) {
+			if (nodes[i].htmlTarget)
+				nodes[i].htmlTarget.classList.remove('drag');
+		}
 		this.owner.root.toggleClass('drag', false);
 		this.owner.svgWrapper.classList.remove('svgtree-drag');
-		this.owner.select(this);
+		if (nodes.length > 1)
+			this.owner._setSelection(this.owner.selectedNodes, this.owner.selectedNode);
+		else
+			this.owner.select(this);
 
 		if ((this.owner._dragNode !== null) && (event.dataTransfer.dropEffect == 'move')) {
-			// Node wasn't removed yet (dragged to a different tree or another target),
-			// we should remove it now
-			this.remove();
+			// Nodes weren't removed yet (dragged to a different tree or another target),
+			// we should remove them now
+			for (i = 0; i < nodes.length; i++)
+				nodes[i].remove();
 		}
 		this.owner._dragNode = null;
+		this.owner._dragNodes = [];
 	}
 
 	private _ondragenter(event: DragEvent) {
@@ -1116,12 +2738,19 @@ export class SVGTreeNode extends Tree {
 	}
 
 	/**
-	 * Checks if this node can be rearranged with another node.
+	 * Checks if this node can be rearranged with another node
+	 * (and other dragged nodes).
 	 */
-	private _isRearrangable(node: SVGTreeNode) {
+	private _isRearrangable(node: SVGTreeNode<D>) {
 		if (!node || !this.parent)
 			return;
 
+		const nodes = this.owner._dragNodes;
+		for (var i = 0; i < nodes.length; i++) {
+			if ((nodes[i] !== node) && (nodes[i].parent !== this.parent))
+				return false;
+		}
+
 		var siblings = this.parent.children;
 		for (var i = 0; i < siblings.length; i++) {
 			if (siblings[i] == node) {
@@ -1157,6 +2786,15 @@ export class SVGTreeNode extends Tree {
 			}
 		}
 
+		var nodes = this.owner._dragNodes;
+		if (nodes.length > 1) {
+			// Several nodes cannot be moved into one of them
+			var target: SVGTreeNode<D> = (point == 'child') ? this : this.parent;
+			for (; target; target = target.parent) {
+				if (nodes.indexOf(target) >= 0) return false;
+			}
+		}
+
 		return true;
 	}
 
@@ -1178,7 +2816,7 @@ export class SVGTreeNode extends Tree {
 				(types[i] == SVGTree_contentType) ||
 				(dragAsText && (types[i] == 'text/plain'))) {
 
-				var point = this.owner._getInsertionPoint(event);
+				var point = this.owner._getInsertionPoint(event, this);
 
 				if (!this._checkInsertionPoint(point, event)) {
 					// Hide insertion point
@@ -1206,7 +2844,7 @@ export class SVGTreeNode extends Tree {
 
 				insertionPt.setAttribute('transform',
 					'translate(' + this.x + ' ' + this.y + ')' +
-					' rotate(' + this.owner._rotation(point) + ')');
+					' rotate(' + this.owner._rotation(point, this) + ')');
 
 				break;
 			}
@@ -1232,11 +2870,16 @@ export class SVGTreeNode extends Tree {
 					event.ctrlKey && !rearrange ? 'copy' : 'move';
 		}
 
-		var point = this.owner._getInsertionPoint(event),
+		var point = this.owner._getInsertionPoint(event, this),
 			dropData = null,
+			list = false,
 			types = event.dataTransfer.types;
 
 		for (var i = 0; i < types.length; i++) {
+			if (types[i] == SVGTree_listContentType)
+				list = true;
+		}
+		for (i = 0; i < types.length; i++) {
 			if ((types[i] == 'Text') ||
 				(types[i] == 'text/plain') ||
 				(types[i] == SVGTree_contentType)) {
@@ -1246,20 +2889,48 @@ export class SVGTreeNode extends Tree {
 			}
 		}
 
+		var items = [ dropData ];
 		if (this.owner._dragNode && (effect == 'move')) {
-			dropData = this.owner._dragNode;
+			items = this.owner._dragNodes;
+		} else if (this.owner._dragNode && (this.owner._dragNodes.length > 1)) {
+			// Copy nodes dragged within the tree one by one
+			items = this.owner._dragNodes.map(function(node) { return node.toJSON(); });
 		}
 
-		switch (point) {
-			case 'before':
-				this.parent.insertContent(dropData, this.position());
-				break;
-			case 'after':
-				this.parent.insertContent(dropData, this.position() + 1);
-				break;
-			case 'child':
-				this.insertContent(dropData);
-				break;
+		try {
+			var parent: SVGTreeNode<D>, position: number;
+			switch (point) {
+				case 'before':
+					parent = this.parent;
+					position = this.position();
+					break;
+				case 'after':
+					parent = this.parent;
+					position = this.position() + 1;
+					break;
+				case 'child':
+					parent = this;
+					position = this.children.length;
+					break;
+			}
+
+			if (list && !this.owner._dragNode) {
+				// Nodes dragged from another tree are inserted without their unnamed parent
+				var content = this.owner.parse(dropData);
+				items = content.isLeaf() ? [ content ] : content.children.slice();
+			}
+
+			// Dropped nodes follow each other in their original order
+			this.owner._changeTogether(function() {
+				var node = parent.insertContent(items[0], position);
+				for (var i = 1; i < items.length; i++)
+					node = parent.insertContent(items[i], node.position() + 1);
+			});
+		} catch(e) {
+			// Malformed text in the strict mode; the error is already reported
+			// via the onerror listener
+			if (!(e instanceof NewickParseError))
+				throw e;
 		}
 
 		this.owner._dragNode = null;
@@ -1267,51 +2938,244 @@ export class SVGTreeNode extends Tree {
 }
 
 
-export class SVGTree {
-	options: Options;
-	root: SVGTreeNode;
+export class SVGTree<D = any> {
+	options: Options<D>;
+	root: SVGTreeNode<D>;
 
 	_offsetLeft?: number;
 	_offsetTop?: number;
-
-	selectedNode: SVGTreeNode;
+	private _viewBox?: number[];
+	// Number of pixels per SVG unit and the center of the view set by panning or zooming
+	// (null if the view is centered on the tree)
+	_zoom: number;
+	private _center: { x: number, y: number };
+	private _renderedView: string;	// view box and zoom for the current target positions
+	private _lengthScale?: number;
+	// The last layout (arrangements of unchanged subtrees are reused by the next one)
+	// and the bounding box of the rendered tree, or null if it needs to be measured
+	private _layout: TreeLayout<SVGTreeNode<D>>;
+	private _content: LabelBox;
+
+	// Active node of the selection (the last selected one), which has the keyboard focus
+	// and can be edited, and all selected nodes
+	selectedNode: SVGTreeNode<D>;
+	selectedNodes: SVGTreeNode<D>[];
+	_selection: Set<SVGTreeNode<D>>;	// selected nodes for fast lookups
+	private _rangeAnchor: SVGTreeNode<D>;	// node a range selected with Shift-click starts from
 
 	nodeInput?: HTMLInputElement;
-	_dragNode?: SVGTreeNode;
+	private _treeElement?: HTMLElement;	// element with the tree role holding the targets of nodes
+	private _liveRegion?: HTMLElement;	// announces changes of the tree to screen readers
+	// Changes collected to be announced together, or null
+	private _pendingChanges?: { change: 'add'|'remove'|'move', nodes: SVGTreeNode<D>[] };
+	_dragNode?: SVGTreeNode<D>;
+	_dragNodes?: SVGTreeNode<D>[];	// all dragged nodes in the order of the tree
 	svgWrapper?: HTMLElement;
 	_insertionPoint?: SVGPathElement;
 	private svg: SVGElement;
 
+	// Rendering state: whether there are changes to render and whether they
+	// require a new layout, and the animation frame scheduled for rendering
+	private _pendingRender: boolean;
+	private _needsLayout: boolean;
+	private _frame: number;
+	// HTML targets released by nodes outside the view in the virtualized mode
+	_targetPool: TargetBinding<D>[];
+	// Running transitions and the animation frame drawing them,
+	// and nodes disappearing from the tree
+	private _tweens: Tween<D>[];
+	private _animationFrame: number;
+	private _exiting: SVGTreeNode<D>[];
+
 	// Event listeners
 	private readonly onrender?: ()=>void;
-	private readonly onselect?: (node: Tree) => void;
+	private readonly onselect?: (node: Tree<D>, selection: Tree<D>[]) => void;
 	private readonly onchange?: () => void
+	private readonly onerror?: (error: NewickParseError) => void;
+
+	/**
+	 * Rotations of insertion point marker depending on tree orientation.
+	 * In the radial orientation, rotations are relative to the polar angle of the node.
+	 */
+	static readonly rotations = {
+		v: {
+			after: 0,
+			child: 90,
+			before: 180
+		},
+		h: {
+			after: 90,
+			before: 270,
+			child: 0
+		},
+		'v-reverse': {
+			after: 0,
+			child: 270,
+			before: 180
+		},
+		'h-reverse': {
+			after: 90,
+			before: 270,
+			child: 180
+		},
+		radial: {
+			after: 90,
+			before: 270,
+			child: 0
+		}
+	}
+
+	/**
+	 * Relations of nodes selected with the arrow keys depending on tree orientation.
+	 */
+	static readonly keyDirections: { [orientation: string]: { [direction: string]: KeyAction } } = {
+		v: {
+			up: 'parent',
+			down: 'firstChild',
+			left: 'previous',
+			right: 'next'
+		},
+		h: {
+			up: 'previous',
+			down: 'next',
+			left: 'parent',
+			right: 'firstChild'
+		},
+		'v-reverse': {
+			up: 'firstChild',
+			down: 'parent',
+			left: 'previous',
+			right: 'next'
+		},
+		'h-reverse': {
+			up: 'previous',
+			down: 'next',
+			left: 'firstChild',
+			right: 'parent'
+		},
+		radial: {
+			up: 'previous',
+			down: 'next',
+			left: 'parent',
+			right: 'firstChild'
+		}
+	}
+
+	/**
+	 * Renderers of edges by the name of the edge style (the edges option).
+	 * 'straight' and 'angular' edges correspond to the layout of the tree,
+	 * 'diagonal' edges are smooth curves, and 'elbow' edges are angular edges
+	 * with rounded corners.
+	 */
+	static readonly edgeStyles: { [name: string]: EdgeRenderer } = {
+		straight: straightEdge,
+		angular: angularEdge,
+		diagonal: diagonalEdge,
+		elbow: elbowEdge
+	}
+
+	/**
+	 * Registers a custom edge style, which can then be used as the value of the edges option.
+	 *
+	 * @param {String} name
+	 *    name of the style
+	 * @param {Function} renderer
+	 *    function receiving the parent and child ends of an edge and the orientation
+	 *    of the tree, and returning SVG path data for the edge
+	 */
+	static registerEdgeStyle(name: string, renderer: EdgeRenderer) {
+		SVGTree.edgeStyles[name] = renderer;
+	}
+
+	/**
+	 * Types of node markers by name. The factory of a marker creates its element,
+	 * and the positioner centers the element on the node.
+	 */
+	static readonly markers: { [name: string]: MarkerType } = {
+		circle: {
+			factory: function(node, size) { return node.circleMarker(size); },
+			positioner: positionByCenter
+		},
+		square: {
+			factory: function(node, size) { return node.squareMarker(size); },
+			positioner: positionByCorner
+		},
+		triangle: {
+			factory: function(node, size) { return node.triangleMarker(size); },
+			positioner: positionByTransform
+		},
+		diamond: {
+			factory: function(node, size) { return node.diamondMarker(size); },
+			positioner: positionByTransform
+		},
+		image: {
+			factory: function(node, size) { return node.imageMarker(size); },
+			positioner: positionByCorner
+		},
+		none: {
+			factory: function(node) { return node.noMarker(); },
+			positioner: function() { }
+		}
+	}
 
 	/**
-	 * Rotations of insertion point marker depending on tree orientation.
+	 * Registers a custom type of node markers, which can then be used in setMarker()
+	 * and as the value of the nodes option. The marker element gets the 'marker' class,
+	 * so that collapsed, selection and other styles apply to it.
+	 *
+	 * @param {String} name
+	 *    name of the marker type
+	 * @param {Function} factory
+	 *    function receiving a node and the marker size, and returning an SVG element
+	 * @param {Function} positioner
+	 *    function receiving the element, coordinates of the node and the marker size,
+	 *    and centering the element on the node
 	 */
-	static readonly rotations = {
-		v: {
-			after: 0,
-			child: 90,
-			before: 180
+	static registerMarker(name: string, factory: MarkerFactory, positioner: MarkerPositioner) {
+		SVGTree.markers[name] = { factory: factory, positioner: positioner };
+	}
+
+	/**
+	 * Easing functions for animated transitions.
+	 */
+	static readonly easings: { [name: string]: (t: number) => number } = {
+		linear: function(t) {
+			return t;
 		},
-		h: {
-			after: 90,
-			before: 270,
-			child: 0
+		'ease-in': function(t) {
+			return t * t * t;
+		},
+		'ease-out': function(t) {
+			return 1 - Math.pow(1 - t, 3);
+		},
+		'ease-in-out': function(t) {
+			return (t < 0.5) ? 4 * t * t * t : 1 - Math.pow(2 - 2 * t, 3) / 2;
 		}
 	}
 
-	constructor(container: HTMLElement, options?: Options, newick?: string) {
+	constructor(container: HTMLElement, options?: Options<D>, newick?: string) {
 		this.root = null;
+		this._pendingRender = this._needsLayout = false;
+		this._layout = this._content = null;
+		this._frame = null;
+		this._targetPool = [];
+		this._tweens = [];
+		this._animationFrame = null;
+		this._exiting = [];
+		this._pendingChanges = null;
+		this._zoom = 1;
+		this._center = null;
 		this.options = SVGTree.defaultOptions();
 		this.setOptions(options);
 		this._createElements(container);
-		this.selectedNode = null;
+		this.selectedNode = this._rangeAnchor = null;
+		this.selectedNodes = [];
+		this._selection = new Set();
+		this._dragNodes = [];
 		this.onselect = this.options.onselect;
 		this.onrender = this.options.onrender;
 		this.onchange = this.options.onchange;
+		this.onerror = this.options.onerror;
 		if (newick)
 			this.setContent(newick, false);
 	}
@@ -1324,9 +3188,14 @@ export class SVGTree {
 		return {
 			orientation: 'v',
 			nodes: 'circle',
+			markerSize: 8,
 			edges: 'angular',
 			leafDistance: 40,	// Distance between leaves at same level
 			depthDistance: 50,	// DIstance between parent and its children
+			layout: 'median',
+			depthScale: 'levels',
+			lengthScale: null,
+			scaleBar: true,
 			padding: 30,
 			size: 'keep',
 
@@ -1335,23 +3204,67 @@ export class SVGTree {
 			targetSize: 25,
 
 			labelBackgrounds: true,
+			labelSpacing: false,
+			labelGap: 4,		// Minimal gap between labels if labelSpacing is set
+			batchRendering: false,
+			virtualize: false,
+			virtualMargin: 200,
+			panZoom: false,
+			minZoom: 0.1,
+			maxZoom: 10,
+			zoomStep: 1.25,
+			animation: false,
+			strictParsing: false,
+
+			keymap: {
+				ArrowUp: 'up',
+				ArrowDown: 'down',
+				ArrowLeft: 'left',
+				ArrowRight: 'right',
+				Home: 'root',
+				End: 'last',
+				F2: 'edit',
+				Escape: 'deselect',
+				Delete: 'remove',
+				Insert: 'insert',
+				' ': 'toggle',
+				Enter: 'toggle'
+			},
 
 			summary: function(node) {
 				var nDescendants = node.queue().length - 1;
 				return '(' + nDescendants + ')';
 			},
 
+			label: stringify,
+			labelPosition: null,
+			maxLabelWidth: null,
+			htmlLabel: null,
+			nodeStyle: null,
+			edgeStyle: null,
+			edgeLabel: null,
+			edgeLabelBackgrounds: false,
+			serialize: stringify,
+			deserialize: function(text) { return text; },
+
+			ariaLabel: null,
+			announcement: function(change, node, count) {
+				var verbs = { add: 'Added', remove: 'Removed', move: 'Moved' };
+				return verbs[change] + ' ' + ((count > 1) ? count + ' nodes' : node.accessibleName());
+			},
+
 			// Event listeners
 			onrender: function() { },
-			onselect: function(node) { },
-			onchange: function() { }
+			onselect: function(node, selection) { },
+			onchange: function() { },
+			onerror: function(error) { }
 		};
 	}
 
-	static processOptions(options: Options, defaults: Options) {
+	static processOptions<D>(options: Options<D>, defaults: Options<D>) {
 		if (!defaults) defaults = SVGTree.defaultOptions();
 		if (!options) options = { };
-		var fullOptions: Options = { };
+		var fullOptions: Options<D> = { };
 
 		for (var field in defaults) {
 			if (!(field in options)) {
@@ -1361,6 +3274,16 @@ export class SVGTree {
 			}
 		}
 
+		// Keys bound in the options override the default bindings one by one
+		if (options.keymap && defaults.keymap) {
+			var keymap = { };
+			for (var key in defaults.keymap)
+				keymap[key] = defaults.keymap[key];
+			for (key in options.keymap)
+				keymap[key] = options.keymap[key];
+			fullOptions.keymap = keymap;
+		}
+
 		var actions = fullOptions.interaction || [];
 
 		fullOptions._canSelectNodes = actions.length > 0;
@@ -1377,7 +3300,7 @@ export class SVGTree {
 		return fullOptions;
 	}
 
-	find(data: any): Tree|null {
+	find(data: any): Tree<D>|null {
 		return this.root.find(data);
 	}
 
@@ -1389,15 +3312,24 @@ export class SVGTree {
 	 * @returns {Object}
 	 *    complete options
 	 */
-	setOptions(options: Options) {
+	setOptions(options: Options<D>) {
 		this.options = SVGTree.processOptions(options, this.options);
 
 		if (this.svg) {
-			this.svgWrapper.classList.toggle('svgtree-h', this.options.orientation == 'h');
-			this.svgWrapper.classList.toggle('svgtree-v', this.options.orientation == 'v');
+			for (var orientation in SVGTree.rotations) {
+				this.svgWrapper.classList.toggle('svgtree-' + orientation,
+					this.options.orientation == orientation);
+			}
+			this.svgWrapper.classList.toggle('svgtree-pannable', this.options.panZoom);
+			this.svgWrapper.classList.toggle('svgtree-virtualized', this.options.virtualize);
+			this.svgWrapper.classList.toggle('svgtree-interactive', this.options._canSelectNodes);
+			this._finishAnimation();
 			this.root.removeSVG(true);
+			this._updateTreeElements();
+			// Listeners of released targets may not correspond to the new options
+			this._targetPool = [];
 			this.render();
-			if (this.selectedNode) this.select(this.selectedNode);
+			if (this.selectedNode) this._setSelection(this.selectedNodes, this.selectedNode);
 		}
 	}
 
@@ -1405,108 +3337,804 @@ export class SVGTree {
 	 * Renders the tree.
 	 *
 	 * @param {SVGTreeNode} node
-	 *    (optional) a specific node that was changed
+	 *    (optional) a specific node that was changed. If not specified,
+	 *    all nodes are repositioned and redrawn
+	 */
+	render(node?: SVGTreeNode<D>) {
+		if (node) {
+			node._dirty = true;
+		} else {
+			var queue = this.root.visualQueue();
+			for (var i = 0; i < queue.length; i++)
+				queue[i]._dirty = true;
+			this._needsLayout = true;
+		}
+		this._pendingRender = true;
+		this.flush();
+	}
+
+	/**
+	 * Schedules rendering after a change of the tree. If the batchRendering option is set,
+	 * changes are accumulated and rendered on the next animation frame.
+	 *
+	 * @param {SVGTreeNode} node
+	 *    (optional) node which label or marker has changed
+	 * @param {Boolean} relayout
+	 *    whether nodes need to be repositioned (e.g., after the tree structure has changed)
 	 */
-	render(node?: SVGTreeNode) {
-		var queue: SVGTreeNode[] = node ? [ node ] : this.root.visualQueue(),
-			options = this.options;
+	_invalidate(node: SVGTreeNode<D>|null, relayout: boolean) {
+		if (node) node._dirty = true;
+		if (relayout) this._needsLayout = true;
+		this._pendingRender = true;
+
+		if (this.options.batchRendering)
+			this._requestFrame();
+		else
+			this.flush();
+	}
 
-		if (!node) {
-			this.root._setLeafPositions();
-			this.root._realign();
+	/**
+	 * Schedules rendering of pending changes on the next animation frame.
+	 */
+	private _requestFrame() {
+		if (typeof requestAnimationFrame !== 'function') {
+			this.flush();
+		} else if (this._frame === null) {
+			var self = this;
+			this._frame = requestAnimationFrame(function() {
+				self._frame = null;
+				self.flush();
+			});
+		}
+	}
 
-			for (var i = queue.length - 1; i >= 0; i--)
-				queue[i]._setCoordinates(options);
+	/**
+	 * Renders pending changes immediately.
+	 */
+	flush() {
+		if (this._frame !== null) {
+			cancelAnimationFrame(this._frame);
+			this._frame = null;
 		}
-		// We don't need to reposition nodes if we are rendering a single node
+		if (this._pendingRender)
+			this._update();
+	}
 
-		this._createEdges(queue, options);
-		this._createNodes(queue, options);
-		this._createLabels(queue, options);
+	/**
+	 * Renders pending changes. Only nodes which have changed, moved or have not been
+	 * rendered yet are redrawn. In the median layout, only subtrees whose structure
+	 * has changed are re-arranged (labelSpacing and the tidy layout require
+	 * the whole tree to be laid out), and the size of the tree is measured again
+	 * only if some nodes were redrawn.
+	 */
+	private _update() {
+		var options = this.options,
+			labelSpacing = options.labelSpacing && (options.orientation != 'radial'),
+			relayout = this._needsLayout,
+			animate = relayout && this._animates(),
+			visible = this.root.visualQueue(),
+			changed: SVGTreeNode<D>[] = [],
+			queue: SVGTreeNode<D>[] = [],	// nodes to redraw
+			i: number;
+		this._pendingRender = this._needsLayout = false;
+
+		for (i = 0; i < visible.length; i++) {
+			const node = visible[i];
+			if (node._exitAnchor) {
+				// The node has reappeared while disappearing (e.g., its parent was expanded)
+				node._exitAnchor = null;
+				node.svgNode.classList.remove('exiting');
+				if (node.svgEdge) node.svgEdge.classList.remove('exiting');
+				node._dirty = true;
+			}
+			if (animate) node._saveState();
+
+			// E.g., inserted nodes or descendants of an expanded node
+			if (!node.svgNode.parentNode) node._dirty = true;
+			// Summaries of collapsed nodes may change with the tree structure
+			if (relayout && node.collapsed) node._dirty = true;
+			if (node._dirty) changed.push(node);
+		}
+		this._exiting = this._exiting.filter(function(node) { return !!node._exitAnchor; });
+
+		if (labelSpacing && (changed.length > 0)) {
+			// Labels need to be rendered before they can be measured,
+			// and changed labels may affect positions of other nodes
+			this._createNodes(changed, options);
+			for (i = 0; i < changed.length; i++)
+				changed[i]._applyStyles(options);
+			this._createLabels(changed, options, true);
+			relayout = true;
+		}
+
+		queue = changed.slice();
+		if (relayout) {
+			var layoutOptions: LayoutOptions = options;
+			if (labelSpacing) {
+				layoutOptions = Object.create(options);
+				layoutOptions.labelBox = function(node: LayoutNode) {
+					return (<SVGTreeNode<D>>node).labelBox();
+				};
+			}
+
+			const layout = layoutTree(this.root, layoutOptions, this._layout);
+			this._layout = layout;
+			this._lengthScale = layout.lengthScale;
+			for (i = 0; i < layout.nodes.length; i++) {
+				const node = layout.nodes[i].node;
+				if (node._setPosition(layout.nodes[i]) && !node._dirty)
+					queue.push(node);
+			}
+		}
 
 		// We can't use svg.getBBox() because of a 'hidden' insertion point marker
 		// (and IE 11 starts flickering during drag'n'drop
 		// if we use display:none or visibility:hidden to hide it).
 
+		var offsetLeft = this._offsetLeft, offsetTop = this._offsetTop,
+			rendered = visible,
+			resized = relayout || (queue.length > 0);
+		if (resized) this._content = null;
+		if (options.virtualize) {
+			// Only nodes in the view are drawn; other nodes release their elements
+			this._setSize();
+			const view = this._viewport(options.virtualMargin);
+			rendered = [];
+			for (i = 0; i < visible.length; i++) {
+				const node = visible[i];
+				if (node._inView(view))
+					rendered.push(node);
+				else if (node.svgNode.parentNode)
+					node._release();
+			}
+			queue = queue.filter(function(node) { return node._inView(view); });
+		}
+
+		this._createEdges(queue, options);
+		this._createNodes(queue, options);
+		// Styles are applied before labels are measured
+		for (i = 0; i < queue.length; i++)
+			queue[i]._applyStyles(options);
+		this._createLabels(queue, options, !labelSpacing);
+		if (relayout)
+			this._createScaleBar(visible, options);
+		for (i = 0; i < changed.length; i++)
+			changed[i]._dirty = false;
+		for (i = 0; i < queue.length; i++)
+			queue[i]._dirty = false;
+
+		var tweens: Tween<D>[] = [];
+		if (animate) {
+			for (i = 0; i < visible.length; i++) {
+				const tween = visible[i]._tween();
+				if (tween && (rendered === visible || visible[i].svgNode.parentNode))
+					tweens.push(tween);
+			}
+			tweens = tweens.concat(this._exitTweens(this._labelRenderer(options)));
+		}
+
+		// Labels of the redrawn nodes are measured only now
+		if (resized) this._content = null;
 		this._setSize();
+		const view = this._viewBox.join(' ') + ' ' + this._zoom,
+			viewChanged = (view !== this._renderedView);
+		this._renderedView = view;
 
 		if (options._canSelectNodes) {
-			// We need to reposition all targets, even if only one label has changed
-			queue = this.root.visualQueue();
+			// All targets need to be repositioned if the view box has changed
+			if ((offsetLeft !== this._offsetLeft) || (offsetTop !== this._offsetTop) || viewChanged)
+				queue = rendered;
 			this._createTargets(queue, options);
+
+			// Levels and positions of items may change after the tree structure has changed
+			if (relayout && (queue !== rendered)) {
+				for (i = 0; i < rendered.length; i++)
+					rendered[i]._updateAria();
+			}
+			this._updateTabStop();
+		}
+		if (this.selectedNodes.some(function(node) { return node.isDetached(); })) {
+			const nodes = this.selectedNodes.filter(function(node) { return !node.isDetached(); });
+			this._setSelection(nodes, (nodes.indexOf(this.selectedNode) >= 0) ?
+				this.selectedNode : (nodes[nodes.length - 1] || null));
+		}
+		if (animate)
+			this._animate(tweens);
+		this._positionInput();
+
+		if (this.onrender)
+			this.onrender.call(this);
+	}
+
+	/**
+	 * Checks if changes of the layout are animated.
+	 */
+	_animates() {
+		var animation = this.options.animation;
+		return !!animation && (animation.duration > 0) &&
+			(typeof requestAnimationFrame === 'function');
+	}
+
+	/**
+	 * Starts hiding nodes which are collapsed or removed from the tree.
+	 * Their elements are kept until the nodes shrink into an anchor node.
+	 *
+	 * @param {Array} nodes
+	 *    disappearing nodes
+	 * @param {SVGTreeNode} anchor
+	 *    node (usually, the nearest remaining ancestor) to shrink into
+	 */
+	_exit(nodes: SVGTreeNode<D>[], anchor: SVGTreeNode<D>) {
+		for (var i = 0; i < nodes.length; i++) {
+			const node = nodes[i];
+			if (!node.svgNode.parentNode) continue;
+
+			if (!node._exitAnchor) this._exiting.push(node);
+			node._exitAnchor = anchor;
+
+			// Disappearing nodes cannot be interacted with
+			node.svgNode.classList.add('exiting');
+			node.svgNode.classList.remove(_hoverCls);
+			if (node.svgEdge)
+				node.svgEdge.classList.add('exiting');
+			if (node.htmlTarget)
+				node.htmlTarget.remove();
+		}
+	}
+
+	/**
+	 * Creates transitions for disappearing nodes. The nodes are drawn in their final state,
+	 * so that they do not affect the size of the SVG element.
+	 *
+	 * @param {Function} createLabel
+	 *    function positioning the label
+	 */
+	private _exitTweens(createLabel: Function) {
+		var tweens: Tween<D>[] = [];
+		for (var i = 0; i < this._exiting.length; i++) {
+			const node = this._exiting[i],
+				from = node._drawn || node._state();
+
+			var anchor = node._exitAnchor;
+			while (anchor._exitAnchor)
+				anchor = anchor._exitAnchor;
+
+			const to = pointState(anchor._state(), from.edge.length);
+			node._drawState(to, createLabel);
+			tweens.push({ node: node, from: from, to: to, exit: true });
+		}
+		return tweens;
+	}
+
+	/**
+	 * Starts animating transitions of nodes, replacing the running animation.
+	 *
+	 * @param {Array} tweens
+	 *    transitions of nodes
+	 */
+	private _animate(tweens: Tween<D>[]) {
+		if (this._animationFrame !== null) {
+			cancelAnimationFrame(this._animationFrame);
+			this._animationFrame = null;
+		}
+		for (var i = 0; i < this._tweens.length; i++)
+			this._tweens[i].node._drawn = null;
+		this._tweens = tweens;
+		if (tweens.length === 0) return;
+
+		var self = this,
+			animation = <AnimationOptions>this.options.animation,
+			easing = (typeof animation.easing === 'function') ? animation.easing :
+				SVGTree.easings[animation.easing || 'ease-in-out'] || SVGTree.easings['ease-in-out'],
+			createLabel = this._labelRenderer(this.options),
+			start: number = null;
+
+		function draw(t: number) {
+			for (var i = 0; i < tweens.length; i++) {
+				const tween = tweens[i];
+				tween.node._drawState(interpolateState(tween.from, tween.to, t), createLabel);
+			}
+			self._positionInput();
+		}
+
+		function step(time: number) {
+			if (start === null) start = time;
+			var t = Math.min(1, (time - start) / animation.duration);
+			if (t < 1) {
+				draw(easing(t));
+				self._animationFrame = requestAnimationFrame(step);
+			} else {
+				self._animationFrame = null;
+				self._finishAnimation(false);
+			}
+		}
+
+		draw(0);
+		this._animationFrame = requestAnimationFrame(step);
+	}
+
+	/**
+	 * Completes running transitions immediately. Nodes which have disappeared
+	 * are removed from the SVG element.
+	 *
+	 * @param {Boolean} pending
+	 *    whether to remove nodes which have started disappearing after the last rendering
+	 */
+	private _finishAnimation(pending = true) {
+		if (this._animationFrame !== null) {
+			cancelAnimationFrame(this._animationFrame);
+			this._animationFrame = null;
+		}
+
+		var createLabel = this._labelRenderer(this.options), i: number;
+		for (i = 0; i < this._tweens.length; i++) {
+			const node = this._tweens[i].node;
+			if (this._tweens[i].exit) {
+				node._exitAnchor = null;
+			} else {
+				node._drawState(node._state(), createLabel);
+				node._drawn = null;
+			}
+		}
+		this._tweens = [];
+
+		for (i = 0; i < this._exiting.length; i++) {
+			const node = this._exiting[i];
+			if (!pending && node._exitAnchor) continue;
+
+			node._exitAnchor = node._drawn = null;
+			node.svgNode.classList.remove('exiting');
+			node.svgNode.remove();
+			if (node.svgEdge) {
+				node.svgEdge.classList.remove('exiting');
+				node.svgEdge.remove();
+			}
 		}
-		if (this.selectedNode && this.selectedNode.isDetached()) {
-			this.select(null);
+		this._exiting = this._exiting.filter(function(node) { return !!node._exitAnchor; });
+		this._positionInput();
+	}
+
+	/**
+	 * Places the text input for editing a node over its label
+	 * if the labelPosition option is set.
+	 *
+	 * @param {SVGTreeNode} node
+	 */
+	private _placeInput(node: SVGTreeNode<D>) {
+		const positions: LabelPosition[] = [ 'below', 'above', 'left', 'right', 'rotated' ];
+		const options = this.options;
+		var position = (options.labelPosition && (options.orientation != 'radial')) ?
+			this._labelPosition(options, node.isLeaf() || node.collapsed) : null;
+		for (var i = 0; i < positions.length; i++) {
+			this.nodeInput.classList.toggle('svgtree-input-' + positions[i],
+				position === positions[i]);
 		}
+	}
+
+	/**
+	 * Moves the text input for editing nodes to the selected node.
+	 */
+	private _positionInput() {
 		if (this.nodeInput && this.selectedNode) {
 			var pos = this.selectedNode.offsetPos();
 			this.nodeInput.style.left = pos.left + 'px';
 			this.nodeInput.style.top = pos.top + 'px';
 		}
+	}
 
-		if (this.onrender)
-			this.onrender.call(this);
+	/**
+	 * Creates a scale bar for the 'branchLength' mode. The bar is placed
+	 * beside the tree and has a length of 1, 2 or 5 times a power of 10 units.
+	 *
+	 * @param {Array} queue
+	 *    list of visible nodes
+	 * @param {Object} options
+	 *    tree display options
+	 */
+	private _createScaleBar(queue: SVGTreeNode<D>[], options: Options<D>) {
+		var group = <SVGElement>this.svg.querySelector('.scale');
+		if (group) group.remove();
+
+		var scale = this._lengthScale;
+		if ((options.depthScale != 'branchLength') || !options.scaleBar || !scale)
+			return;
+
+		var minX = 100000000, maxY = -100000000, maxDepth = 0;
+		const orientation = options.orientation;
+		for (var i = 0; i < queue.length; i++) {
+			const pos = queue[i].coordinates();
+			minX = Math.min(minX, pos.x);
+			maxY = Math.max(maxY, pos.y);
+
+			var depth: number;
+			switch (orientation) {
+				case 'h': depth = pos.x; break;
+				case 'h-reverse': depth = -pos.x; break;
+				case 'v': depth = pos.y; break;
+				case 'v-reverse': depth = -pos.y; break;
+				default: depth = Math.sqrt(pos.x * pos.x + pos.y * pos.y);
+			}
+			maxDepth = Math.max(maxDepth, depth);
+		}
+
+		// Choose a round length not exceeding a fifth of the tree depth
+		var target = maxDepth / scale / 5;
+		if (!(target > 0)) target = 1 / scale;
+		var unit = Math.pow(10, Math.floor(Math.log(target) / Math.LN10)),
+			length = unit;
+		if (5 * unit <= target)
+			length = 5 * unit;
+		else if (2 * unit <= target)
+			length = 2 * unit;
+		length = parseFloat(length.toPrecision(1));
+
+		const size = length * scale, tick = 3;
+		var points: number[], x: number, y: number;
+		var text = <SVGTextElement>svgTag('text');
+
+		if ((orientation != 'v') && (orientation != 'v-reverse')) {
+			// The bar starts or ends below the root in the horizontal orientations,
+			// and starts below the leftmost node in the radial one
+			var x0 = minX;
+			if (orientation == 'h') x0 = 0;
+			if (orientation == 'h-reverse') x0 = -size;
+
+			y = maxY + options.leafDistance;
+			points = [ x0, y - tick, x0, y + tick, x0, y,
+				x0 + size, y, x0 + size, y - tick, x0 + size, y + tick ];
+			x = x0 + size / 2; y += 16;
+			text.style.setProperty('text-anchor', 'middle');
+		} else {
+			const y0 = (orientation == 'v') ? 0 : -size;
+			x = minX - options.leafDistance;
+			points = [ x - tick, y0, x + tick, y0, x, y0,
+				x, y0 + size, x - tick, y0 + size, x + tick, y0 + size ];
+			x -= 2 * tick; y = y0 + size / 2 + 4;
+			text.style.setProperty('text-anchor', 'end');
+		}
+
+		group = this._getGroup(this.svg, 'scale');
+		var line = svgTag('polyline');
+		line.setAttribute('points', points.join(' '));
+		group.appendChild(line);
+
+		text.setAttribute('x', x.toString());
+		text.setAttribute('y', y.toString());
+		text.textContent = length.toString();
+		group.appendChild(text);
 	}
 
 	/**
-	 * Changes the size and the view box of the SVG element according to the display options.
+	 * Returns the bounding box of the rendered tree. The box is measured once
+	 * after the tree has been redrawn, so that changes of the view do not
+	 * need to measure the elements again.
+	 *
+	 * @returns {Object}
+	 *    box with x, y, width and height fields
 	 */
-	private _setSize() {
+	private _contentBox() {
+		if (!this._content)
+			this._content = this._measureContent();
+		return this._content;
+	}
+
+	/**
+	 * Calculates the bounding box of the rendered tree.
+	 *
+	 * @returns {Object}
+	 *    box with x, y, width and height fields
+	 */
+	private _measureContent() {
 		const svg = this.svg;
-		const options = this.options;
-		const svgChildren = <SVGGraphicsElement[]>[
+		var svgChildren = <SVGGraphicsElement[]>[
 			this._getGroup(svg, 'edges'),
 			this._getGroup(svg, 'nodes')
 		];
+		var boxes: LabelBox[] = [];
+		if (this.options.virtualize) {
+			// Only a part of the nodes is rendered, so boxes are calculated from node positions
+			svgChildren = [];
+			var queue = this.root.visualQueue();
+			for (var i = 0; i < queue.length; i++)
+				boxes.push(queue[i]._bounds());
+		}
+		if (svg.querySelector('.scale'))
+			svgChildren.push(<SVGGraphicsElement>svg.querySelector('.scale'));
+		for (i = 0; i < svgChildren.length; i++)
+			boxes.push(svgChildren[i].getBBox());
+
 		var minX = 100000000, minY = 100000000,
 			maxX = -100000000, maxY = -100000000;
-		const padding = options.padding;
 
-		for (var i = 0; i < svgChildren.length; i++) {
-			var box = svgChildren[i].getBBox();
+		for (i = 0; i < boxes.length; i++) {
+			var box = boxes[i];
 			maxX = Math.max(maxX, box.x + box.width);
 			maxY = Math.max(maxY, box.y + box.height);
 			minX = Math.min(minX, box.x);
 			minY = Math.min(minY, box.y);
 		}
-		minX -= padding; minY -= padding;
-		maxX += padding; maxY += padding;
+		return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+	}
+
+	/**
+	 * Returns the part of the tree visible in the wrapper element in SVG coordinates.
+	 *
+	 * @param {Number} margin
+	 *    number of pixels to extend the visible part by on each side
+	 * @returns {Object}
+	 *    rectangle with left, top, right and bottom fields
+	 */
+	private _viewport(margin: number) {
+		const viewBox = this._viewBox,
+			wrapper = this.svgWrapper;
+
+		// See SVGTreeNode.offsetPos() for the conversion of SVG coordinates to pixels;
+		// offsets do not depend on scrolling, so the visible part starts at the scroll position
+		const zoom = this._zoom;
+		var left = (wrapper.scrollLeft + this._offsetLeft) / zoom,
+			top = (wrapper.scrollTop + this._offsetTop) / zoom,
+			width = wrapper.clientWidth / zoom || viewBox[2],
+			height = wrapper.clientHeight / zoom || viewBox[3];
+
+		margin /= zoom;
+		return {
+			left: Math.max(viewBox[0], left) - margin,
+			top: Math.max(viewBox[1], top) - margin,
+			right: Math.min(viewBox[0] + viewBox[2], left + width) + margin,
+			bottom: Math.min(viewBox[1] + viewBox[3], top + height) + margin
+		};
+	}
+
+	/**
+	 * Changes the size and the view box of the SVG element according to the display options
+	 * and the current zoom.
+	 */
+	private _setSize() {
+		const svg = this.svg;
+		const options = this.options;
+		const padding = options.padding;
+		const zoom = this._zoom;
+		const box = this._contentBox();
+		var minX = box.x - padding, minY = box.y - padding,
+			maxX = box.x + box.width + padding, maxY = box.y + box.height + padding;
 
 		var transform = [];
 		if (options.size === 'fit') {
+			// The whole tree is displayed; zooming changes the size of the SVG element
 			transform = [ minX, minY, maxX - minX, maxY - minY ];
-			svg.style.width = (maxX - minX) + 'px';
-			svg.style.height = (maxY - minY) + 'px';
+			svg.style.width = (maxX - minX) * zoom + 'px';
+			svg.style.height = (maxY - minY) * zoom + 'px';
 		} else {
-			const cx = (minX + maxX) / 2, cy = (minY + maxY) / 2;
-			var	width: number;
-			var height: number;
-
-			if (options.size === 'keep') {
-				var style = getComputedStyle(svg);
-				width = parseFloat(style.width);
-				height = parseFloat(style.height);
-			} else {
-				width = options.size[0];
-				height = options.size[1];
-				svg.style.width = width + 'px';
-				svg.style.height = height + 'px';
+			const center = this._center || { x: (minX + maxX) / 2, y: (minY + maxY) / 2 },
+				size = this._svgSize();
+
+			if (options.size !== 'keep') {
+				svg.style.width = size.width + 'px';
+				svg.style.height = size.height + 'px';
 			}
 
-			transform = [ cx - width / 2, cy - height / 2, width, height ];
+			transform = [
+				center.x - size.width / zoom / 2,
+				center.y - size.height / zoom / 2,
+				size.width / zoom,
+				size.height / zoom
+			];
+		}
+		svg.setAttribute('viewBox', transform.join(' '));
+		this._viewBox = transform;
+
+		const wrapperPos = innerClientPos(this.svgWrapper),
+			svgPos = innerClientPos(this.svg);
+
+		// Offsets are relative to the scrolled content of the wrapper, as positions
+		// of absolutely positioned HTML targets
+		const wrapper = this.svgWrapper;
+		this._offsetLeft = transform[0] * zoom - (svgPos.left - wrapperPos.left + wrapper.scrollLeft);
+		this._offsetTop = transform[1] * zoom - (svgPos.top - wrapperPos.top + wrapper.scrollTop);
+
+		// Round offsets to half a pixel (otherwise, the targets appear not centered
+		// on node markers in some cases)
+		this._offsetLeft = Math.round(this._offsetLeft * 2) / 2;
+		this._offsetTop = Math.round(this._offsetTop * 2) / 2;
+	}
+
+	/**
+	 * Returns the size of the SVG element in pixels for the 'keep' and fixed size options.
+	 *
+	 * @returns {Object}
+	 */
+	private _svgSize() {
+		const size = this.options.size;
+		if (size === 'keep') {
+			var style = getComputedStyle(this.svg);
+			return { width: parseFloat(style.width), height: parseFloat(style.height) };
+		}
+		return { width: (<number[]>size)[0], height: (<number[]>size)[1] };
+	}
+
+	/**
+	 * Increases the zoom by the zoomStep option, keeping the center of the view in place.
+	 */
+	zoomIn() {
+		this._zoomAround(this.options.zoomStep, null);
+	}
+
+	/**
+	 * Decreases the zoom by the zoomStep option, keeping the center of the view in place.
+	 */
+	zoomOut() {
+		this._zoomAround(1 / this.options.zoomStep, null);
+	}
+
+	/**
+	 * Zooms and centers the view, so that the whole tree is visible.
+	 */
+	fit() {
+		this._zoomToBox(this._contentBox());
+	}
+
+	/**
+	 * Zooms and centers the view on the visible part of the subtree rooted at a node.
+	 *
+	 * @param {SVGTreeNode} node
+	 */
+	zoomTo(node: SVGTreeNode<D>) {
+		// Bounds of nodes are determined by the current layout
+		this.flush();
+		var queue = node.visualQueue(),
+			minX = 100000000, minY = 100000000,
+			maxX = -100000000, maxY = -100000000;
+		for (var i = 0; i < queue.length; i++) {
+			const box = queue[i]._bounds();
+			minX = Math.min(minX, box.x);
+			minY = Math.min(minY, box.y);
+			maxX = Math.max(maxX, box.x + box.width);
+			maxY = Math.max(maxY, box.y + box.height);
+		}
+
+		this._zoomToBox({ x: minX, y: minY, width: maxX - minX, height: maxY - minY });
+		this._scrollTo({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 });
+	}
+
+	/**
+	 * Centers the view on a node without changing the zoom.
+	 *
+	 * @param {SVGTreeNode} node
+	 */
+	centerOn(node: SVGTreeNode<D>) {
+		this.flush();
+		if (this.options.size !== 'fit')
+			this._setView(this._zoom, node.coordinates());
+		this._scrollTo(node.coordinates());
+	}
+
+	/**
+	 * Scrolls the wrapper element to center a point if the SVG element is sized
+	 * to fit the tree.
+	 *
+	 * @param {Object} point
+	 *    point in SVG coordinates
+	 */
+	private _scrollTo(point: { x: number, y: number }) {
+		if (this.options.size !== 'fit') return;
+		// The view box and the size of the SVG element may be updated on the next frame
+		// with the batchRendering option
+		this.flush();
+
+		const wrapper = this.svgWrapper,
+			wrapperPos = innerClientPos(wrapper),
+			svgPos = innerClientPos(this.svg),
+			viewBox = this._viewBox;
+
+		// Position of the SVG element within the scrolled content of the wrapper
+		var left = svgPos.left - wrapperPos.left + wrapper.scrollLeft,
+			top = svgPos.top - wrapperPos.top + wrapper.scrollTop;
+
+		wrapper.scrollLeft = left + (point.x - viewBox[0]) * this._zoom - wrapper.clientWidth / 2;
+		wrapper.scrollTop = top + (point.y - viewBox[1]) * this._zoom - wrapper.clientHeight / 2;
+	}
+
+	/**
+	 * Sets the zoom and the center of the view, so that a box fits into the view.
+	 *
+	 * @param {Object} box
+	 *    box in SVG coordinates
+	 */
+	private _zoomToBox(box: LabelBox) {
+		const padding = this.options.padding;
+		var zoom = 1, center: { x: number, y: number } = null,
+			size = { width: this.svgWrapper.clientWidth, height: this.svgWrapper.clientHeight };
+
+		if (this.options.size !== 'fit') {
+			size = this._svgSize();
+			center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+		}
+
+		// The wrapper element of a fitting SVG element may not have a size of its own
+		if (size.width > 0 && size.height > 0) {
+			zoom = Math.min(size.width / (box.width + 2 * padding),
+				size.height / (box.height + 2 * padding));
+		}
+		this._setView(zoom, center);
+	}
+
+	/**
+	 * Changes the zoom keeping a certain point of the view in place.
+	 *
+	 * @param {Number} factor
+	 *    multiplier for the current zoom
+	 * @param {Object} point
+	 *    point in pixels relative to the SVG element, or null for the center of the view
+	 * @param {Boolean} deferred
+	 *    whether to update the view on the next animation frame
+	 */
+	private _zoomAround(factor: number, point: { x: number, y: number }, deferred?: boolean) {
+		const viewBox = this._viewBox;
+		var zoom = this._clampZoom(this._zoom * factor);
+		if (this.options.size === 'fit') {
+			this._setView(zoom, null, deferred);
+			return;
+		}
+
+		// Offset of the point from the center of the view in pixels
+		var center = this._viewCenter(),
+			dx = point ? point.x - viewBox[2] * this._zoom / 2 : 0,
+			dy = point ? point.y - viewBox[3] * this._zoom / 2 : 0;
+
+		this._setView(zoom, {
+			x: center.x + dx / this._zoom - dx / zoom,
+			y: center.y + dy / this._zoom - dy / zoom
+		}, deferred);
+	}
+
+	/**
+	 * Moves the view by a certain number of pixels.
+	 */
+	private _pan(dx: number, dy: number) {
+		if (this.options.size === 'fit') {
+			this.svgWrapper.scrollLeft -= dx;
+			this.svgWrapper.scrollTop -= dy;
+			return;
 		}
-		svg.setAttribute('viewBox', transform.join(' '));
 
-		const wrapperPos = innerClientPos(this.svgWrapper),
-			svgPos = innerClientPos(this.svg);
+		var center = this._viewCenter();
+		this._setView(this._zoom, {
+			x: center.x - dx / this._zoom,
+			y: center.y - dy / this._zoom
+		}, true);
+	}
 
-		this._offsetLeft = transform[0] - (svgPos.left - wrapperPos.left);
-		this._offsetTop = transform[1] - (svgPos.top - wrapperPos.top);
+	/**
+	 * Returns the center of the view in SVG coordinates.
+	 */
+	private _viewCenter() {
+		if (this._center) return this._center;
+		const viewBox = this._viewBox;
+		return { x: viewBox[0] + viewBox[2] / 2, y: viewBox[1] + viewBox[3] / 2 };
+	}
 
-		// Round offsets to half a pixel (otherwise, the targets appear not centered
-		// on node markers in some cases)
-		this._offsetLeft = Math.round(this._offsetLeft * 2) / 2;
-		this._offsetTop = Math.round(this._offsetTop * 2) / 2;
+	private _clampZoom(zoom: number) {
+		return Math.min(this.options.maxZoom, Math.max(this.options.minZoom, zoom));
+	}
+
+	/**
+	 * Sets the zoom and the center of the view.
+	 *
+	 * @param {Number} zoom
+	 *    number of pixels per SVG unit
+	 * @param {Object} center
+	 *    center of the view in SVG coordinates, or null to center the view on the tree
+	 * @param {Boolean} deferred
+	 *    whether to update the view on the next animation frame
+	 */
+	private _setView(zoom: number, center: { x: number, y: number }, deferred?: boolean) {
+		this._zoom = this._clampZoom(zoom);
+		this._center = center;
+		this._pendingRender = true;
+		if (deferred || this.options.batchRendering)
+			this._requestFrame();
+		else
+			this.flush();
 	}
 
 	/**
@@ -1538,7 +4166,7 @@ export class SVGTree {
 	 * @param {Object} options
 	 *    tree display options
 	 */
-	private _createNodes(queue: SVGTreeNode[], options: Options) {
+	private _createNodes(queue: SVGTreeNode<D>[], options: Options<D>) {
 		var nodes = this._getGroup(this.svg, 'nodes');
 		for (var i = 0; i < queue.length; i++) {
 			const node = queue[i];
@@ -1559,23 +4187,14 @@ export class SVGTree {
 	 * @param {Object} options
 	 *    tree display options
 	 */
-	private _createEdges(queue: SVGTreeNode[], options: Options) {
-		var createEdge: Function;
-		switch (options.edges) {
-			case 'straight':
-				createEdge = SVGTreeNode.prototype.directEdge;
-				break;
-			case 'angular':
-				createEdge = (options.orientation == 'h') ?
-					SVGTreeNode.prototype.vhEdge : SVGTreeNode.prototype.hvEdge;
-				break;
-		}
-
+	private _createEdges(queue: SVGTreeNode<D>[], options: Options<D>) {
 		var edges = this._getGroup(this.svg, 'edges');
-		for (var i = 1; i < queue.length; i++) {
-			const node = queue[i],
-				newEdge = !node.svgEdge || !node.svgEdge.parentNode;
-			createEdge.call(node);
+		for (var i = 0; i < queue.length; i++) {
+			const node = queue[i];
+			if (node === this.root) continue;
+
+			const newEdge = !node.svgEdge || !node.svgEdge.parentNode;
+			node._renderEdge();
 			if (newEdge)
 				edges.appendChild(node.svgEdge);
 		}
@@ -1590,18 +4209,89 @@ export class SVGTree {
 	 *    list of nodes to render
 	 * @param {Object} options
 	 *    tree display options
+	 * @param {Boolean} updateText
+	 *    whether to update the text of changed labels (otherwise, labels are only positioned)
 	 */
-	private _createLabels(queue: SVGTreeNode[], options: Options) {
-		const createLabel = (options.orientation == 'v') ?
-			SVGTreeNode.prototype.centeredHLabel : SVGTreeNode.prototype.hLabel;
-
+	private _createLabels(queue: SVGTreeNode<D>[], options: Options<D>, updateText: boolean) {
+		var createLabel = this._labelRenderer(options);
 		for (var i = 0; i < queue.length; i++) {
 			const node = queue[i];
 			createLabel.call(node);
-			node._updateLabel();
+			if (updateText && node._dirty)
+				node._updateLabel();
+			else if (options.labelBackgrounds)
+				node._positionLabelBg();
+			node._positionEdgeLabel();
 		}
 	}
 
+	/**
+	 * Returns the method of SVGTreeNode positioning node labels.
+	 *
+	 * @param {Object} options
+	 *    tree display options
+	 * @returns {Function}
+	 */
+	private _labelRenderer(options: Options<D>) {
+		if (options.orientation == 'radial')
+			return SVGTreeNode.prototype.radialLabel;
+
+		const leafLabel = this._placementRenderer(this._labelPosition(options, true)),
+			internalLabel = this._placementRenderer(this._labelPosition(options, false));
+		if (leafLabel === internalLabel)
+			return leafLabel;
+
+		return function(this: SVGTreeNode<D>) {
+			var createLabel = (this.isLeaf() || this.collapsed) ? leafLabel : internalLabel;
+			createLabel.call(this);
+		};
+	}
+
+	/**
+	 * Returns the method of SVGTreeNode placing labels in a certain way.
+	 *
+	 * @param {String} position
+	 *    placement of labels
+	 * @returns {Function}
+	 */
+	private _placementRenderer(position: LabelPosition) {
+		var createLabel: Function;
+		switch (position) {
+			case 'below':
+				createLabel = SVGTreeNode.prototype.centeredHLabel;
+				break;
+			case 'above':
+				createLabel = SVGTreeNode.prototype.aboveHLabel;
+				break;
+			case 'left':
+				createLabel = SVGTreeNode.prototype.leftHLabel;
+				break;
+			case 'rotated':
+				createLabel = SVGTreeNode.prototype.vLabel;
+				break;
+			default:
+				createLabel = SVGTreeNode.prototype.hLabel;
+		}
+		return createLabel;
+	}
+
+	/**
+	 * Returns the placement of labels for leaves or internal nodes
+	 * (not applicable to the radial orientation).
+	 *
+	 * @param {Object} options
+	 *    tree display options
+	 * @param {Boolean} leaf
+	 *    whether to return the placement for leaves
+	 * @returns {String}
+	 */
+	private _labelPosition(options: Options<D>, leaf: boolean): LabelPosition {
+		var position = options.labelPosition;
+		if (position && (typeof position === 'object'))
+			position = leaf ? position.leaves : position.internal;
+		return <LabelPosition>position || _defaultLabelPositions[options.orientation];
+	}
+
 	/**
 	 * Creates HTML targets for nodes of the tree to enable drag and double-click operations
 	 * (SVG elements don't support them).
@@ -1611,41 +4301,199 @@ export class SVGTree {
 	 * @param {Object} options
 	 *    tree display options
 	 */
-	private _createTargets(queue: SVGTreeNode[], options: Options) {
+	private _createTargets(queue: SVGTreeNode<D>[], options: Options<D>) {
 		for (var i = 0; i < queue.length; i++) {
 			const node = queue[i],
-				newTarget = !node.htmlTarget || !node.htmlTarget.parentNode;
+				container = this._targetContainer(node);
 
 			node.createTarget(options);
-			if (newTarget)
-				this.svgWrapper.appendChild(node.htmlTarget);
+			if (node.htmlTarget.parentNode !== container) {
+				// Moving an element takes the focus away from it
+				const focused = (document.activeElement === node.htmlTarget);
+				container.appendChild(node.htmlTarget);
+				if (focused) node.htmlTarget.focus();
+			}
+		}
+	}
+
+	/**
+	 * Returns the element the HTML target of a node is appended to: the group
+	 * of the parent node, which is created if needed, or the tree element for the root.
+	 *
+	 * @param {SVGTreeNode} node
+	 * @returns {HTMLElement}
+	 */
+	private _targetContainer(node: SVGTreeNode<D>) {
+		const tree = this._treeElement, parent = node._relative('parent');
+		if (!tree) return this.svgWrapper;
+		if (!parent) return tree;
+
+		if (!parent._group) {
+			const group = parent._group = document.createElement('div');
+			group.id = 'svgtree-group-' + (++_groupCounter);
+			group.setAttribute('role', 'group');
+			tree.appendChild(group);
+			parent._updateAria();
 		}
+		return parent._group;
 	}
 
 	/**
-	 * Sets the content of this tree.
+	 * Sets the content of this tree. The content may be a text in Newick format,
+	 * a JSON representation of a tree, or a tree node.
+	 *
+	 * @throws {NewickParseError}
+	 *    if the content cannot be parsed and the strictParsing option is set
 	 */
-	setContent(content: string|SVGTreeNode, notify = true) {
+	setContent(content: string|TreeJSON|SVGTreeNode<D>, notify = true) {
+		// The new root is built first, so that the current tree stays intact
+		// if the content cannot be parsed
+		var root: SVGTreeNode<D>;
+		if (typeof content === 'string')
+			root = this.parse(content);
+		else if (content instanceof SVGTreeNode)
+			root = content;
+		else
+			root = new SVGTreeNode(null, this).fromJSON(content);
+
+		this._finishAnimation();
 		if (this.root) this.root.removeSVG();
-		this.root = (typeof content === 'string') ?
-			this.parse(content) : content
+		this.root = root;
 		if (notify)
 			this._notifyChange();
 		this.render();
 	}
 
+	/**
+	 * Creates a standalone SVG document depicting this tree. Styles of the elements
+	 * are inlined, so the document does not depend on external stylesheets.
+	 * Interaction artifacts (the insertion point marker, hover and selection styles)
+	 * are not included. In the virtualized mode, nodes outside the view are rendered
+	 * for the export and released afterwards.
+	 *
+	 * @param {Object} options
+	 *    (optional) export options
+	 * @returns {String}
+	 */
+	toSVGString(options?: SVGExportOptions): string {
+		const virtualize = this.options.virtualize;
+		if (virtualize) this._setVirtualized(false);
+		try {
+			return this._exportSVG(options || {});
+		} finally {
+			if (virtualize) this._setVirtualized(true);
+		}
+	}
+
+	/**
+	 * Switches the virtualized mode and renders the tree accordingly.
+	 *
+	 * @param {Boolean} virtualize
+	 */
+	private _setVirtualized(virtualize: boolean) {
+		this.options.virtualize = virtualize;
+		this._invalidate(null, false);
+		this.flush();
+	}
+
+	/**
+	 * Creates a standalone SVG document from the rendered elements of the tree.
+	 *
+	 * @param {Object} options
+	 *    export options
+	 * @returns {String}
+	 */
+	private _exportSVG(options: SVGExportOptions): string {
+		const padding = (options.padding === undefined) ? this.options.padding : options.padding;
+		this.flush();
+		this._finishAnimation();
+
+		// Temporarily remove interaction classes, so that they do not affect computed styles
+		var interactive = this.svg.querySelectorAll('.' + _interactionClasses.join(',.')),
+			removed: string[][] = [];
+		for (var i = 0; i < interactive.length; i++) {
+			removed.push(_interactionClasses.filter(function(cls) {
+				return interactive[i].classList.contains(cls);
+			}));
+			for (var j = 0; j < removed[i].length; j++)
+				interactive[i].classList.remove(removed[i][j]);
+		}
+
+		const clone = <SVGElement>this.svg.cloneNode(true);
+		const elements = this.svg.querySelectorAll('*'),
+			clonedElements = clone.querySelectorAll('*');
+
+		for (i = 0; i < elements.length; i++) {
+			const style = getComputedStyle(elements[i]),
+				clonedStyle = (<SVGElement>clonedElements[i]).style;
+			for (j = 0; j < _exportedStyles.length; j++) {
+				const value = style.getPropertyValue(_exportedStyles[j]);
+				if (value) clonedStyle.setProperty(_exportedStyles[j], value);
+			}
+		}
+
+		for (i = 0; i < interactive.length; i++) {
+			for (j = 0; j < removed[i].length; j++)
+				interactive[i].classList.add(removed[i][j]);
+		}
+
+		var insertionPt = clone.querySelector('.insert');
+		if (insertionPt) insertionPt.remove();
+
+		const box = this._contentBox(),
+			viewBox = [ box.x - padding, box.y - padding,
+				box.width + 2 * padding, box.height + 2 * padding ];
+		clone.removeAttribute('style');
+		clone.setAttribute('viewBox', viewBox.join(' '));
+		clone.setAttribute('width', viewBox[2].toString());
+		clone.setAttribute('height', viewBox[3].toString());
+
+		if (options.background) {
+			var background = svgTag('rect');
+			background.setAttribute('x', viewBox[0].toString());
+			background.setAttribute('y', viewBox[1].toString());
+			background.setAttribute('width', viewBox[2].toString());
+			background.setAttribute('height', viewBox[3].toString());
+			background.style.fill = options.background;
+			clone.insertBefore(background, clone.firstChild);
+		}
+
+		return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+			new XMLSerializer().serializeToString(clone);
+	}
+
+	/**
+	 * Creates a JSON representation of this tree.
+	 *
+	 * @returns {Object}
+	 */
+	toJSON(): TreeJSON {
+		return this.root.toJSON();
+	}
+
 	/**
 	 * Parses a text into a tree in Newick format.
-	 * In case of a parsing error, the text is transformed into a single node
-	 * containing all of the text.
+	 * In case of a parsing error, the onerror listener is notified; then the error
+	 * is rethrown in the strict mode, or otherwise the text is transformed
+	 * into a single node containing all of the text.
 	 *
 	 * @param {String} text
+	 * @param {Boolean} strict
+	 *    (optional) overrides the strictParsing option
+	 * @throws {NewickParseError}
+	 *    in the strict mode, if the text cannot be parsed
 	 */
-	parse(text: string) {
+	parse(text: string, strict = this.options.strictParsing) {
 		try {
-			return new SVGTreeNode(null, this).parse(text);
+			return new SVGTreeNode(null, this).parse(text, strict);
 		} catch(e) {
-			return new SVGTreeNode(text, this);
+			if (!(e instanceof NewickParseError))
+				throw e;
+
+			this._notifyError(e);
+			if (strict)
+				throw e;
+			return new SVGTreeNode(this.options.deserialize(text), this);
 		}
 	}
 
@@ -1665,17 +4513,20 @@ export class SVGTree {
 
 		this.svg.classList.add('svgtree');
 
-		if (this.options._canCollapseNodes ||
-			this.options._canAddNodes ||
-			this.options._canRemoveNodes) {
+		// Nodes entering the view need to be rendered in the virtualized mode
+		var self = this;
+		container.classList.toggle('svgtree-virtualized', this.options.virtualize);
+		container.addEventListener('scroll', function() {
+			if (self.options.virtualize) self._invalidate(null, false);
+		});
 
-			container.setAttribute('tabindex', '0');
+		container.classList.toggle('svgtree-pannable', this.options.panZoom);
+		this._addPanZoomListeners();
 
-			var self = this;
-			container.addEventListener('keydown', function(event) {
-				self._onkeydown(event);
-			});
-		}
+		this._updateTreeElements();
+		container.addEventListener('keydown', function(event) {
+			self._onkeydown(event);
+		});
 
 		if (this.options._canEditNodes) {
 			container.classList.add('svgtree-editable');
@@ -1687,7 +4538,7 @@ export class SVGTree {
 
 			var ctx = this;
 			this.nodeInput.addEventListener('change', function() {
-				ctx.selectedNode.setData(this.value);
+				ctx.selectedNode.setData(ctx.options.deserialize(this.value));
 			});
 		}
 
@@ -1706,87 +4557,513 @@ export class SVGTree {
 		}
 	}
 
-	select(node: SVGTreeNode) {
-		if (this.selectedNode) {
-			this.selectedNode.svgNode.classList.remove(_selectedCls);
-			this.selectedNode.htmlTarget.classList.remove(_selectedCls);
+	/**
+	 * Creates the element with the tree role and the live region if nodes can be selected,
+	 * or removes them otherwise (interaction may be changed with setOptions()).
+	 */
+	private _updateTreeElements() {
+		const container = this.svgWrapper;
+		var tree = this._treeElement;
+
+		if (!this.options._canSelectNodes) {
+			if (tree) {
+				tree.remove();
+				this._liveRegion.remove();
+				this._treeElement = this._liveRegion = null;
+				this.svg.removeAttribute('aria-hidden');
+			}
+			return;
+		}
+
+		if (!tree) {
+			// The tree is represented by HTML targets of nodes
+			tree = this._treeElement = document.createElement('div');
+			tree.classList.add('svgtree-tree');
+			tree.setAttribute('tabindex', '0');
+			tree.setAttribute('role', 'tree');
+			tree.setAttribute('aria-multiselectable', 'true');
+			container.appendChild(tree);
+			this.svg.setAttribute('aria-hidden', 'true');
+
+			this._liveRegion = document.createElement('div');
+			this._liveRegion.classList.add('svgtree-live');
+			this._liveRegion.setAttribute('role', 'status');
+			this._liveRegion.setAttribute('aria-live', 'polite');
+			container.appendChild(this._liveRegion);
+		}
+		if (this.options.ariaLabel)
+			tree.setAttribute('aria-label', this.options.ariaLabel);
+		else
+			tree.removeAttribute('aria-label');
+	}
+
+	/**
+	 * Adds listeners for zooming with the mouse wheel or by pinching, and for
+	 * panning by dragging the empty canvas. They are active with the panZoom option.
+	 */
+	private _addPanZoomListeners() {
+		var self = this, svg = this.svg,
+			pointers: { [id: number]: { x: number, y: number } } = {};
+
+		function svgPoint(x: number, y: number) {
+			var pos = innerClientPos(svg);
+			return { x: x - pos.left, y: y - pos.top };
+		}
+
+		svg.addEventListener('wheel', function(event: WheelEvent) {
+			if (!self.options.panZoom) return;
+			event.preventDefault();
+
+			// Scrolling by 100 pixels zooms by one step
+			var delta = event.deltaY * ((event.deltaMode === 1) ? 16 : 1);
+			self._zoomAround(Math.pow(self.options.zoomStep, -delta / 100),
+				svgPoint(event.clientX, event.clientY), true);
+		}, { passive: false });
+
+		svg.addEventListener('pointerdown', function(event: PointerEvent) {
+			// Nodes keep their own pointer interactions
+			if (!self.options.panZoom ||
+				self._getGroup(svg, 'nodes').contains(<Node>event.target)) return;
+
+			svg.setPointerCapture(event.pointerId);
+			pointers[event.pointerId] = { x: event.clientX, y: event.clientY };
+			self.svgWrapper.classList.add('svgtree-panning');
+		});
+
+		svg.addEventListener('pointermove', function(event: PointerEvent) {
+			var last = pointers[event.pointerId];
+			if (!last) return;
+
+			var point = { x: event.clientX, y: event.clientY },
+				ids = Object.keys(pointers);
+			pointers[event.pointerId] = point;
+
+			if (ids.length == 1) {
+				self._pan(point.x - last.x, point.y - last.y);
+			} else if (ids.length == 2) {
+				// Pinching zooms around the middle of both pointers
+				var other = pointers[+ids[(+ids[0] === event.pointerId) ? 1 : 0]],
+					before = Math.sqrt(Math.pow(last.x - other.x, 2) + Math.pow(last.y - other.y, 2)),
+					after = Math.sqrt(Math.pow(point.x - other.x, 2) + Math.pow(point.y - other.y, 2));
+
+				if (before > 0) {
+					self._zoomAround(after / before,
+						svgPoint((point.x + other.x) / 2, (point.y + other.y) / 2), true);
+				}
+			}
+		});
+
+		function release(event: PointerEvent) {
+			delete pointers[event.pointerId];
+			if (!Object.keys(pointers).length)
+				self.svgWrapper.classList.remove('svgtree-panning');
+		}
+		svg.addEventListener('pointerup', release);
+		svg.addEventListener('pointercancel', release);
+	}
+
+	/**
+	 * Selects a single node, or clears the selection if the node is null.
+	 *
+	 * @param {SVGTreeNode} node
+	 */
+	select(node: SVGTreeNode<D>) {
+		this._rangeAnchor = node;
+		this._setSelection(node ? [ node ] : [], node);
+	}
+
+	/**
+	 * Adds a node to the selection or removes it from the selection.
+	 *
+	 * @param {SVGTreeNode} node
+	 */
+	toggleSelection(node: SVGTreeNode<D>) {
+		var nodes = this.selectedNodes.slice(),
+			index = nodes.indexOf(node),
+			active = node;
+		if (index >= 0) {
+			nodes.splice(index, 1);
+			active = (node === this.selectedNode) ?
+				(nodes[nodes.length - 1] || null) : this.selectedNode;
+		} else {
+			nodes.push(node);
+		}
+
+		this._rangeAnchor = active;
+		this._setSelection(nodes, active);
+	}
+
+	/**
+	 * Selects visible nodes between the node selected last and a certain node
+	 * in the depth-first order.
+	 *
+	 * @param {SVGTreeNode} node
+	 */
+	selectRange(node: SVGTreeNode<D>) {
+		var anchor = this._rangeAnchor;
+		if (!anchor || anchor.isDetached())
+			return this.select(node);
+
+		var visible = this.visibleNodes(),
+			start = visible.indexOf(anchor),
+			end = visible.indexOf(node);
+		if ((start < 0) || (end < 0))
+			return this.select(node);
+
+		this._setSelection(visible.slice(Math.min(start, end), Math.max(start, end) + 1), node);
+	}
 
-			if (this.options._canEditNodes) {
-				//!this.selectedNode.svgLabel.style.visibility = 'visible';
+	/**
+	 * Returns visible nodes of the tree in the depth-first order.
+	 *
+	 * @returns {Array}
+	 */
+	visibleNodes() {
+		var nodes: SVGTreeNode<D>[] = [],
+			stack = [ this.root ];
+		while (stack.length > 0) {
+			var node = stack.pop();
+			nodes.push(node);
+			if (!node.collapsed) {
+				for (var i = node.children.length - 1; i >= 0; i--)
+					stack.push(node.children[i]);
 			}
 		}
+		return nodes;
+	}
 
-		if (node) {
+	/**
+	 * Returns selected nodes which have no selected ancestors, in the depth-first order.
+	 * Bulk operations apply to these nodes together with their descendants.
+	 *
+	 * @returns {Array}
+	 */
+	_selectionRoots() {
+		var selected = this.selectedNodes, roots: SVGTreeNode<D>[] = [],
+			stack = [ this.root ];
+		while (stack.length > 0) {
+			var node = stack.pop();
+			if (selected.indexOf(node) >= 0) {
+				roots.push(node);	// descendants are removed or moved together with the node
+				continue;
+			}
+			for (var i = node.children.length - 1; i >= 0; i--)
+				stack.push(node.children[i]);
+		}
+		return roots;
+	}
+
+	/**
+	 * Sets the selected nodes and updates their elements.
+	 *
+	 * @param {Array} nodes
+	 *    selected nodes
+	 * @param {SVGTreeNode} active
+	 *    active node of the selection, or null
+	 */
+	_setSelection(nodes: SVGTreeNode<D>[], active: SVGTreeNode<D>) {
+		const previous = this.selectedNodes, focused = this._hasFocus(),
+			selection = new Set(nodes);
+		var i: number;
+		for (i = 0; i < previous.length; i++) {
+			const node = previous[i];
+			if (selection.has(node)) continue;
+			node.svgNode.classList.remove(_selectedCls);
+			if (node.htmlTarget)
+				node.htmlTarget.classList.remove(_selectedCls);
+		}
+
+		for (i = 0; i < nodes.length; i++) {
+			const node = nodes[i];
 			node.svgNode.classList.add(_selectedCls);
-			node.htmlTarget.classList.add(_selectedCls);
+			// The target may be missing for a node outside the view in the virtualized mode
+			if (node.htmlTarget)
+				node.htmlTarget.classList.add(_selectedCls);
+		}
 
-			if (this.options._canEditNodes) {
+		if (this.options._canEditNodes) {
+			if (nodes.length == 1) {
 				// Display a text input
-				var pos = node.offsetPos();
+				var pos = active.offsetPos();
 				this.nodeInput.style.left = pos.left + 'px';
 				this.nodeInput.style.top = pos.top + 'px';
-				this.nodeInput.value = node.data;
+				this._placeInput(active);
+				this.nodeInput.value = (active.data === null) ? '' : this.options.serialize(active.data);
 				this.nodeInput.style.display = 'block';
-			}
-		} else {
-			if (this.options._canEditNodes) {
+			} else {
 				this.nodeInput.style.display = 'none';
 			}
 		}
+		this.svgWrapper.classList.toggle('svgtree-multiselect', nodes.length > 1);
+
+		this.selectedNode = active;
+		this.selectedNodes = nodes;
+		this._selection = selection;
+		for (i = 0; i < previous.length; i++)
+			previous[i]._updateAria();
+		for (i = 0; i < nodes.length; i++)
+			nodes[i]._updateAria();
+		// Focus follows the selection
+		if (active && focused) this._focusSelected();
+		this._updateTabStop();
 
-		this.selectedNode = node;
 		if (this.onselect) {
-			this.onselect.call(this, node);
+			this.onselect.call(this, active, nodes.slice());
+		}
+	}
+
+	/**
+	 * Returns the node which HTML target is reachable with the Tab key:
+	 * the selected node or, if no node is selected, the root.
+	 *
+	 * @returns {SVGTreeNode}
+	 */
+	_tabStop() {
+		return this.selectedNode || this.root;
+	}
+
+	/**
+	 * Updates tab indices after the selection has changed. The tree element
+	 * is focusable with the Tab key only if the target of the tab stop node
+	 * is not rendered (e.g., in the virtualized mode).
+	 */
+	private _updateTabStop() {
+		if (!this._treeElement) return;
+
+		var stop = this._tabStop();
+		if (stop && stop.htmlTarget)
+			stop._updateAria();
+		if (this.root && (this.root !== stop))
+			this.root._updateAria();
+		this._treeElement.tabIndex = (stop && stop.htmlTarget && stop.htmlTarget.parentNode) ? -1 : 0;
+	}
+
+	/**
+	 * Checks if the keyboard focus is within this tree (excluding the editing input).
+	 */
+	_hasFocus() {
+		const active = document.activeElement;
+		return !!active && !!this._treeElement && this._treeElement.contains(active);
+	}
+
+	/**
+	 * Moves the keyboard focus to the HTML target of the selected node
+	 * if the target is rendered.
+	 */
+	_focusSelected() {
+		var node = this.selectedNode;
+		if (node && node.htmlTarget && node.htmlTarget.parentNode)
+			node.htmlTarget.focus();
+		else if (this._treeElement)
+			this._treeElement.focus();
+	}
+
+	/**
+	 * Announces a change of the tree in the live region for screen readers.
+	 *
+	 * @param {String} change
+	 *    one of 'add', 'remove' or 'move'
+	 * @param {SVGTreeNode} node
+	 *    changed node
+	 * @param {Number} count
+	 *    (optional) number of nodes changed together
+	 */
+	_announce(change: 'add'|'remove'|'move', node: SVGTreeNode<D>, count = 1) {
+		const pending = this._pendingChanges;
+		if (pending) {
+			pending.change = change;
+			pending.nodes.push(node);
+			return;
+		}
+
+		if (!this._liveRegion || !this.options.announcement) return;
+		this._liveRegion.textContent = this.options.announcement(change, node, count);
+	}
+
+	/**
+	 * Changes several nodes at once, so that screen readers are notified
+	 * about all the changes with a single announcement.
+	 *
+	 * @param {Function} action
+	 *    function changing the nodes
+	 */
+	_changeTogether(action: () => void) {
+		const pending = this._pendingChanges = { change: null, nodes: [] };
+		try {
+			action();
+		} finally {
+			this._pendingChanges = null;
+			if (pending.nodes.length > 0)
+				this._announce(pending.change, pending.nodes[0], pending.nodes.length);
 		}
 	}
 
 	private _onkeydown(event: KeyboardEvent) {
-		if (!this.selectedNode) return;
-		if (event.target == this.nodeInput) return;
+		if (!this.options._canSelectNodes || (event.target == this.nodeInput)) return;
+		if (event.altKey || event.ctrlKey || event.metaKey) return;
 
-		switch (event.keyCode) {
-			case 46: // Delete
-				if (!this.options._canRemoveNodes) return;
-				this.selectedNode.remove();
-				event.preventDefault();
-				return;
-			case 45: // Insert
-				if (!this.options._canAddNodes) return;
-				this.selectedNode.insertContent();
-				event.preventDefault();
-				return;
-			case 32: // Spacebar
-			case 13: // Enter
-				if (!this.options._canCollapseNodes) return;
-				this.selectedNode.toggle();
-				event.preventDefault();
-				return;
+		const action = this.options.keymap && this.options.keymap[event.key];
+		if (!action) return;
+
+		if (typeof action === 'function') {
+			action(this, event);
+		} else if (this._keyAction(action)) {
+			event.preventDefault();
+		}
+	}
+
+	/**
+	 * Performs an action bound to a key.
+	 *
+	 * @param {String} action
+	 *    name of the action
+	 * @returns {Boolean}
+	 *    whether the action has been performed
+	 */
+	private _keyAction(action: KeyAction): boolean {
+		const options = this.options, node = this.selectedNode;
+
+		switch (action) {
+			case 'up':
+			case 'down':
+			case 'left':
+			case 'right':
+				return this._keyAction(SVGTree.keyDirections[options.orientation][action]);
+			case 'parent':
+			case 'previous':
+			case 'next':
+				return this._selectRelative(node ? node._relative(action) : this.root);
+			case 'firstChild':
+				if (node && node.collapsed && options._canCollapseNodes) {
+					node.expand();
+					return true;
+				}
+				return this._selectRelative(node ? node._relative(action) : this.root);
+			case 'root':
+				return this._selectRelative(this.root);
+			case 'last':
+				return this.root ? this._selectRelative(this.root._relative('last')) : false;
+			case 'edit':
+				// Only a single selected node can be edited
+				if (!node || !options._canEditNodes || (this.selectedNodes.length != 1)) return false;
+				this.nodeInput.focus();
+				this.nodeInput.select();
+				return true;
+			case 'deselect':
+				if (!node) return false;
+				this.select(null);
+				return true;
+			case 'remove':
+				if (!node || !options._canRemoveNodes) return false;
+				var roots = this._selectionRoots();
+				this._changeTogether(function() {
+					for (var i = 0; i < roots.length; i++)
+						roots[i].remove();
+				});
+				return true;
+			case 'insert':
+				if (!node || !options._canAddNodes) return false;
+				node.insertContent();
+				return true;
+			case 'toggle':
+				if (!node || !options._canCollapseNodes) return false;
+				// All selected nodes are expanded or collapsed together with the active node
+				var collapse = !node.collapsed, nodes = this.selectedNodes.slice();
+				for (var i = 0; i < nodes.length; i++) {
+					if (collapse) nodes[i].collapse();
+					else nodes[i].expand();
+				}
+				return true;
+			default:
+				throw 'Unknown key action: ' + action;
 		}
 	}
 
+	/**
+	 * Selects a node found by keyboard navigation.
+	 *
+	 * @param {SVGTreeNode} node
+	 *    node to select, or null if there is no node in the requested direction
+	 * @returns {Boolean}
+	 *    whether the selection has changed
+	 */
+	private _selectRelative(node: SVGTreeNode<D>) {
+		if (!node || (node === this.selectedNode)) return false;
+		// The focused target may be released when the view moves to the node
+		const focused = this._hasFocus();
+		this._reveal(node);
+		this.select(node);
+		if (focused) this._focusSelected();
+		return true;
+	}
+
+	/**
+	 * Moves the view to a node outside of it in the virtualized mode, so that
+	 * the node is rendered and its target can receive the keyboard focus.
+	 *
+	 * @param {SVGTreeNode} node
+	 */
+	private _reveal(node: SVGTreeNode<D>) {
+		if (!this.options.virtualize) return;
+		this.flush();
+		if (node._inView(this._viewport(0))) return;
+
+		this.centerOn(node);
+		// Scrolling the wrapper renders nodes entering the view only on the scroll event
+		this._invalidate(null, false);
+		this.flush();
+	}
+
 	_notifyChange() {
 		if (this.onchange)
 			this.onchange.call(this);
 	}
 
+	private _notifyError(error: NewickParseError) {
+		if (this.onerror)
+			this.onerror.call(this, error);
+	}
+
 	/**
 	 * Determines the direction of insertion of new tree nodes.
 	 *
 	 * @param {DragEvent} event
 	 *    drag event to determine the direction
+	 * @param {SVGTreeNode} node
+	 *    node the event is targeted at
 	 * @returns {String}
 	 *    one of 'before', 'after', or 'child'
 	 */
-	_getInsertionPoint(event: DragEvent) {
+	_getInsertionPoint(event: DragEvent, node: SVGTreeNode<D>) {
 		const targetSize = this.options.targetSize;
 		const rect = (<HTMLElement>event.target).getBoundingClientRect();
 		var	x = event.clientX - rect.left,
 			y = event.clientY - rect.top;
 
-		if (this.options.orientation == 'h') {
-			const tmp = x;
-			x = y;
-			y = tmp;
+		var tmp: number;
+		switch (this.options.orientation) {
+			case 'h':
+				tmp = x;
+				x = y;
+				y = tmp;
+				break;
+			case 'v-reverse':
+				y = targetSize - y;
+				break;
+			case 'h-reverse':
+				tmp = x;
+				x = y;
+				y = targetSize - tmp;
+				break;
+			case 'radial':
+				// Rotate coordinates, so that the direction to children points down
+				// as in the vertical orientation
+				var angle = node.angle() * Math.PI / 180,
+					c = targetSize / 2,
+					dx = x - c, dy = y - c;
+				x = c - dx * Math.sin(angle) + dy * Math.cos(angle);
+				y = c + dx * Math.cos(angle) + dy * Math.sin(angle);
+				break;
 		}
 
 		if (y > 0.67 * targetSize)
@@ -1798,8 +5075,11 @@ export class SVGTree {
 
 	}
 
-	_rotation(point: string): number {
-		return SVGTree.rotations[this.options.orientation][point];
+	_rotation(point: string, node: SVGTreeNode<D>): number {
+		var rotation = SVGTree.rotations[this.options.orientation][point];
+		if (this.options.orientation == 'radial')
+			rotation += node.angle();
+		return rotation;
 	}
 }
 
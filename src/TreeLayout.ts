@@ -0,0 +1,922 @@
+/*	Layout of tree structures, independent of DOM.
+	Used by SVGTree for rendering, but can be used on its own (e.g., in Node).
+ */
+
+/**
+ * Node of a tree to lay out. Tree nodes, as well as their JSON representations,
+ * satisfy this interface.
+ */
+export interface LayoutNode {
+	children?: LayoutNode[];
+	collapsed?: boolean;			// descendants of collapsed nodes are not laid out
+	branchLength?: number|null;		// used in the 'branchLength' depth scale
+}
+
+export type Orientation = 'v'|'h'|'v-reverse'|'h-reverse'|'radial';
+
+/**
+ * Options affecting the layout of a tree.
+ */
+export interface LayoutOptions {
+	// Orientation of the tree. 'v' places the root at the top, 'h' - on the left,
+	// 'v-reverse' - at the bottom, 'h-reverse' - on the right;
+	// 'radial' places the root at the center and leaves around a circle.
+	orientation?: Orientation;
+
+	// Determines the shape of edges in the tree.
+	// Allowed values are 'straight' and 'angular'; other values (e.g., names of edge styles
+	// registered in SVGTree) lay out edges in the same way as 'angular'.
+	edges?: string;
+
+	leafDistance?: number;
+	depthDistance?: number;
+
+	// Algorithm for positioning nodes along the axis perpendicular to depth.
+	// 'median' places each parent at the median of its children and then moves
+	// subtrees closer to each other; 'tidy' uses the linear-time Walker algorithm
+	// (as improved by Buchheim et al.), which produces compact symmetric layouts.
+	layout?: 'median'|'tidy';
+
+	// Determines how nodes are placed along the depth axis.
+	// 'levels' places nodes according to their depth in the tree (a cladogram),
+	// 'branchLength' - according to their distance from the root (a phylogram).
+	depthScale?: 'levels'|'branchLength';
+
+	// Number of pixels per unit of branch length in the 'branchLength' mode.
+	// If not set, the scale is chosen so that the deepest node is placed
+	// at the same distance as in the 'levels' mode.
+	lengthScale?: number;
+
+	// Returns the bounding box of the label of a node relative to the node position
+	// (e.g., measured with getBBox() or estimated from the label text). If set,
+	// adjacent nodes are spaced so that their labels do not overlap; leafDistance
+	// and depthDistance are used as minimal distances. Depth distances are adjusted
+	// only in the 'levels' depth scale, and labels are not taken into account
+	// in the radial orientation.
+	labelBox?: (node: LayoutNode) => LabelBox;
+
+	// Minimal gap between labels of adjacent nodes if labelBox is set.
+	labelGap?: number;
+}
+
+/**
+ * Bounding box of a node label relative to the node position.
+ */
+export interface LabelBox {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Position of a single node in a layout.
+ */
+export interface NodePosition<N extends LayoutNode = LayoutNode> {
+	node: N;
+	parent: NodePosition<N>|null;	// position of the parent node, or null for the root
+	x: number;
+	y: number;
+	depth: number;					// level of the node in the tree
+	index: number;					// zero-based position among siblings
+	distance: number;				// sum of branch lengths on the path from the root
+	edge: number[];					// points of the edge polyline leading from the parent,
+									// as [x1, y1, x2, y2, ...]; empty for the root
+	angle?: number;					// polar angle of the node in radians (radial orientation only)
+}
+
+/**
+ * Result of laying out a tree.
+ */
+export interface TreeLayout<N extends LayoutNode = LayoutNode> {
+	// Positions of visible nodes, each parent before its children
+	nodes: NodePosition<N>[];
+	// Number of pixels per unit of branch length, or null in the 'levels' depth scale
+	lengthScale: number|null;
+}
+
+/**
+ * Function returning the minimal distance between adjacent nodes in leaf distances.
+ */
+type Separation<N extends LayoutNode> = (left: LayoutItem<N>, right: LayoutItem<N>) => number;
+
+/**
+ * Position of a node augmented with intermediate data used during the layout.
+ */
+interface LayoutItem<N extends LayoutNode> extends NodePosition<N> {
+	parent: LayoutItem<N>|null;
+	children: LayoutItem<N>[];
+	leafPosition?: number;		// position along the axis perpendicular to depth, in leaf distances
+	leftMargin?: number[];
+	rightMargin?: number[];
+	leftContour?: LayoutItem<N>[];	// items determining leftMargin
+	rightContour?: LayoutItem<N>[];	// items determining rightMargin
+	offset?: number;			// shift of descendants not yet applied by realign()
+	arrangement?: Arrangement<N>;	// arrangement of the subtree (median layout without labels)
+
+	// Extents of the node label in pixels: before and after the node along the leaf axis,
+	// and from the node in the direction of its children along the depth axis
+	labelBefore?: number;
+	labelAfter?: number;
+	labelDepth?: number;
+
+	// Fields used by the tidy layout
+	prelim?: number;
+	mod?: number;
+	thread?: LayoutItem<N>;
+	ancestor?: LayoutItem<N>;
+	change?: number;
+	shift?: number;
+}
+
+/**
+ * Arrangement of a subtree in the median layout with nodes spaced by one leaf distance.
+ * It does not depend on the rest of the tree, so arrangements of unchanged subtrees are
+ * reused if a previous layout is passed to layoutTree(). Positions are in leaf distances
+ * relative to the first leaf of the subtree.
+ */
+interface Arrangement<N extends LayoutNode> {
+	children: Arrangement<N>[];	// arrangements of the children the subtree was arranged with
+	leafCount: number;
+	position: number;			// position of the root of the subtree
+	offsets: number[];			// positions of the children relative to the root
+	leftMargin: number[];		// see calculateMargins()
+	rightMargin: number[];
+}
+
+/**
+ * Checks if the depth axis of a tree is horizontal.
+ *
+ * @param {String} orientation
+ * @returns {Boolean}
+ */
+export function isHorizontal(orientation: Orientation) {
+	return (orientation == 'h') || (orientation == 'h-reverse');
+}
+
+/**
+ * Default layout options.
+ */
+const layoutDefaults: LayoutOptions = {
+	orientation: 'v',
+	edges: 'angular',
+	leafDistance: 40,
+	depthDistance: 50,
+	layout: 'median',
+	depthScale: 'levels',
+	lengthScale: null,
+	labelBox: null,
+	labelGap: 4
+};
+
+/**
+ * Lays out a tree.
+ *
+ * @param {LayoutNode} root
+ *    root of the tree
+ * @param {Object} options
+ *    layout options; missing options take default values
+ * @param {Object} previous
+ *    (optional) previous layout of the same tree. In the median layout without labelBox,
+ *    only subtrees whose structure has changed since then are re-arranged
+ * @returns {Object}
+ *    positions of visible nodes and edges
+ */
+export function layoutTree<N extends LayoutNode>(root: N, options?: LayoutOptions,
+	previous?: TreeLayout<N>): TreeLayout<N> {
+
+	var fullOptions: LayoutOptions = { };
+	for (var field in layoutDefaults) {
+		fullOptions[field] = (options && (options[field] !== undefined)) ?
+			options[field] : layoutDefaults[field];
+	}
+
+	const items = createItems(root);
+	const separation = measureLabels(items, fullOptions);
+	if (fullOptions.layout == 'tidy') {
+		tidyLayout(items, separation);
+	} else if (fullOptions.labelBox) {
+		setLeafPositions(items[0], separation);
+		realign(items[0], separation);
+	} else {
+		arrange(items, previous);
+	}
+
+	const lengthScale = calculateLengthScale(items, fullOptions),
+		levels = calculateLevels(items, fullOptions);
+	for (var i = 0; i < items.length; i++)
+		setCoordinates(items[i], fullOptions, lengthScale, levels);
+	if (fullOptions.orientation == 'radial')
+		toPolar(items, fullOptions);
+	for (i = 1; i < items.length; i++)
+		setEdge(items[i], fullOptions);
+
+	return { nodes: items, lengthScale: lengthScale };
+}
+
+/**
+ * Creates layout items for visible nodes of a tree in the order
+ * of a breadth-first search (each parent before its children).
+ */
+function createItems<N extends LayoutNode>(root: N): LayoutItem<N>[] {
+	var items: LayoutItem<N>[] = [ createItem(root, null, 0) ],
+		ptr = 0;
+
+	while (ptr < items.length) {
+		var item = items[ptr], children = <N[]>(item.node.children || []);
+		if (!item.node.collapsed) {
+			for (var i = 0; i < children.length; i++) {
+				const child = createItem(children[i], item, i);
+				item.children.push(child);
+				items.push(child);
+			}
+		}
+		ptr++;
+	}
+	return items;
+}
+
+function createItem<N extends LayoutNode>(node: N, parent: LayoutItem<N>, index: number): LayoutItem<N> {
+	return {
+		node: node,
+		parent: parent,
+		children: [],
+		index: index,
+		x: 0,
+		y: 0,
+		depth: parent ? parent.depth + 1 : 0,
+		distance: parent ? parent.distance + (node.branchLength || 0) : 0,
+		edge: []
+	};
+}
+
+/**
+ * Determines extents of node labels along the leaf and depth axes.
+ *
+ * @param {Array} items
+ *    layout items
+ * @param {Object} options
+ *    layout options
+ * @returns {Function}
+ *    function returning the minimal distance between adjacent nodes in leaf distances
+ */
+function measureLabels<N extends LayoutNode>(items: LayoutItem<N>[], options: LayoutOptions): Separation<N> {
+	const orientation = options.orientation;
+	if (!options.labelBox || (orientation == 'radial'))
+		return function() { return 1; };
+
+	for (var i = 0; i < items.length; i++) {
+		const item = items[i],
+			box = options.labelBox(item.node) || { x: 0, y: 0, width: 0, height: 0 };
+
+		if (isHorizontal(orientation)) {
+			item.labelBefore = -box.y;
+			item.labelAfter = box.y + box.height;
+			item.labelDepth = (orientation == 'h') ? box.x + box.width : -box.x;
+		} else {
+			item.labelBefore = -box.x;
+			item.labelAfter = box.x + box.width;
+			item.labelDepth = (orientation == 'v') ? box.y + box.height : -box.y;
+		}
+	}
+
+	return function(left: LayoutItem<N>, right: LayoutItem<N>) {
+		const distance = left.labelAfter + right.labelBefore + options.labelGap;
+		return Math.max(1, distance / options.leafDistance);
+	};
+}
+
+/**
+ * Returns an array containing an item and all its descendants in the order
+ * of a breadth-first search.
+ */
+function subtree<N extends LayoutNode>(item: LayoutItem<N>) {
+	var queue = [ item ], ptr = 0;
+	while (ptr < queue.length) {
+		var children = queue[ptr].children;
+		for (var i = 0; i < children.length; i++)
+			queue.push(children[i]);
+		ptr++;
+	}
+	return queue;
+}
+
+/**
+ * Recursively determines leaf-related positions of the nodes of the tree.
+ * E.g., if the tree is rendered horizontally, this position determines the Y coordinate.
+ *
+ * @param {Object} item
+ *    item to start from
+ * @param {Function} separation
+ *    minimal distance between adjacent nodes
+ * @param {Object} state
+ *    the last positioned leaf and the last positioned node at each depth
+ */
+function setLeafPositions<N extends LayoutNode>(item: LayoutItem<N>, separation: Separation<N>,
+	state: { last: LayoutItem<N>, levels: LayoutItem<N>[] } = { last: null, levels: [] }) {
+
+	const ch = item.children, len = ch.length,
+		prev = state.levels[item.depth];
+
+	if (len === 0) {
+		item.leafPosition = state.last ?
+			state.last.leafPosition + separation(state.last, item) : 0;
+		if (prev) {
+			item.leafPosition = Math.max(item.leafPosition,
+				prev.leafPosition + separation(prev, item));
+		}
+		state.last = item;
+	} else {
+		// Median
+		for (var i = 0; i < len; i++)
+			setLeafPositions(ch[i], separation, state);
+
+		if (len % 2 === 1)
+			item.leafPosition = ch[(len - 1) / 2].leafPosition;
+		else {
+			item.leafPosition = (ch[len / 2 - 1].leafPosition +
+				ch[len / 2].leafPosition) / 2;
+		}
+
+		// With the default separation, a median never comes too close to the previous
+		// node at the same depth; with wide labels, the subtree may need to be moved.
+		var shift = prev ? prev.leafPosition + separation(prev, item) - item.leafPosition : 0;
+		if (shift > 0) {
+			const queue = subtree(item);
+			for (i = 0; i < queue.length; i++)
+				queue[i].leafPosition += shift;
+		}
+	}
+	state.levels[item.depth] = item;
+}
+
+/**
+ * Calculates margins of a subtree used by realign(). The margin at index d corresponds
+ * to the relative depth d.
+ *
+ * @param {Object} item
+ *    root of the subtree
+ */
+function calculateMargins<N extends LayoutNode>(item: LayoutItem<N>) {
+	const ch = item.children;
+	item.leftMargin = [ item.leafPosition ];
+	item.rightMargin = [ item.leafPosition ];
+	item.leftContour = [ item ];
+	item.rightContour = [ item ];
+
+	for (var i = 0; i < ch.length; i++) {
+		var margin = ch[i].leftMargin;
+		var d;
+		for (d = 0; d < margin.length; d++) {
+			if ((d + 1 >= item.leftMargin.length) || (margin[d] < item.leftMargin[d + 1])) {
+				item.leftMargin[d + 1] = margin[d];
+				item.leftContour[d + 1] = ch[i].leftContour[d];
+			}
+		}
+
+		margin = ch[i].rightMargin;
+		for (d = 0; d < margin.length; d++) {
+			if ((d + 1 >= item.rightMargin.length) || (margin[d] > item.rightMargin[d + 1])) {
+				item.rightMargin[d + 1] = margin[d];
+				item.rightContour[d + 1] = ch[i].rightContour[d];
+			}
+		}
+	}
+}
+
+/**
+ * Realignes the nodes after assigning initial leaf positions using
+ * the corresponding recursive function.
+ * The main idea is simple: each node is moved closer to the central (pivot) child
+ * of its parent. To determine the maximal possible shift, we keep track of positions
+ * of the leftmost and rightmost descendants of each node at each relative depth
+ * (depth = 0 corresponds to the node itself, depth = 1 to its children, etc.).
+ */
+function realign<N extends LayoutNode>(item: LayoutItem<N>, separation: Separation<N>) {
+
+	var MAX = 1000000;
+	var L, pivot, i, d, queue;
+
+	if (item.children.length > 0) {
+		var ch = item.children;
+		L = ch.length;
+
+		pivot = (L % 2 == 1) ? ((L - 1) / 2) : (L / 2 - 1);
+		for (i = pivot; i >= 0; i--) realign(ch[i], separation);
+		for (i = pivot + 1; i < L; i++) realign(ch[i], separation);
+
+		if (L % 2 === 0)
+			item.leafPosition = (ch[pivot].leafPosition + ch[pivot + 1].leafPosition) / 2;
+		else
+			item.leafPosition = ch[pivot].leafPosition;
+	}
+
+	if (!item.parent) {
+		// Apply shifts of subtrees (each parent precedes its children in the queue)
+		queue = subtree(item);
+		for (i = 1; i < queue.length; i++) {
+			const shift = queue[i].parent.offset || 0;
+			queue[i].leafPosition += shift;
+			queue[i].offset = (queue[i].offset || 0) + shift;
+		}
+
+		for (i = 0; i < queue.length; i++) {
+			delete queue[i].offset;
+			delete queue[i].leftMargin;
+			delete queue[i].rightMargin;
+			delete queue[i].leftContour;
+			delete queue[i].rightContour;
+		}
+		return;
+	}
+
+	calculateMargins(item);
+
+	var pos = item.index, siblings = item.parent.children;
+	L = siblings.length;
+	pivot = (L % 2 == 1) ? ((L - 1) / 2) : (L / 2 - 1);
+
+	if (pos == pivot) {
+		// No need for re-alignment
+	} else {
+		// Move node right or left according to the marginal positions of its siblings
+
+		var thisMargin = (pos < pivot) ? item.rightMargin : item.leftMargin,
+			thisContour = (pos < pivot) ? item.rightContour : item.leftContour,
+			dir = (pos < pivot) ? 1 : -1,
+			shift = MAX;
+
+		for (var si = pos + dir; (si >= 0) && (si < siblings.length); si += dir) {
+			var sibling = siblings[si],
+				siblingMargin = (pos < pivot) ? sibling.leftMargin : sibling.rightMargin,
+				siblingContour = (pos < pivot) ? sibling.leftContour : sibling.rightContour;
+
+			if (siblingMargin) {
+				for (d = 0; d < siblingMargin.length; d++) {
+					var margin = (d < thisMargin.length) ? thisMargin[d] : -dir * MAX,
+						sep = 1;
+					if (d < thisMargin.length) {
+						sep = (dir > 0) ? separation(thisContour[d], siblingContour[d]) :
+							separation(siblingContour[d], thisContour[d]);
+					}
+					shift = Math.min(shift, dir * (siblingMargin[d] - margin) - sep);
+				}
+			}
+		}
+		shift *= dir;
+
+		item.leafPosition += shift;
+		for (d = 0; d < item.leftMargin.length; d++)
+			item.leftMargin[d] += shift;
+
+		for (d = 0; d < item.rightMargin.length; d++)
+			item.rightMargin[d] += shift;
+
+		// Descendants are shifted once the whole tree is realigned
+		item.offset = (item.offset || 0) + shift;
+	}
+}
+
+/**
+ * Determines leaf-related positions of the nodes in the median layout if all adjacent nodes
+ * are spaced by one leaf distance. The result is the same as of setLeafPositions() followed
+ * by realign(), but the subtrees are arranged independently from each other (from the leaves
+ * up to the root), so that arrangements of unchanged subtrees can be taken from a previous layout.
+ *
+ * @param {Array} items
+ *    layout items, each parent before its children
+ * @param {Object} previous
+ *    (optional) previous layout of the tree
+ */
+function arrange<N extends LayoutNode>(items: LayoutItem<N>[], previous?: TreeLayout<N>) {
+	var arrangements = new Map<N, Arrangement<N>>(), i;
+	if (previous) {
+		for (i = 0; i < previous.nodes.length; i++) {
+			const item = <LayoutItem<N>>previous.nodes[i];
+			if (item.arrangement) arrangements.set(item.node, item.arrangement);
+		}
+	}
+
+	// Children are arranged before their parent
+	for (i = items.length - 1; i >= 0; i--) {
+		const item = items[i], arrangement = arrangements.get(item.node);
+		item.arrangement = (arrangement && isArranged(item, arrangement)) ?
+			arrangement : arrangeSubtree(item);
+	}
+
+	items[0].leafPosition = items[0].arrangement.position;
+	for (i = 1; i < items.length; i++) {
+		const item = items[i], parent = item.parent;
+		item.leafPosition = parent.leafPosition + parent.arrangement.offsets[item.index];
+	}
+}
+
+/**
+ * Checks if an arrangement corresponds to the current subtree of an item
+ * (i.e., the subtree has not changed since the arrangement was made).
+ */
+function isArranged<N extends LayoutNode>(item: LayoutItem<N>, arrangement: Arrangement<N>) {
+	const ch = item.children;
+	if (ch.length !== arrangement.children.length) return false;
+	for (var i = 0; i < ch.length; i++) {
+		if (ch[i].arrangement !== arrangement.children[i]) return false;
+	}
+	return true;
+}
+
+/**
+ * Arranges the subtree rooted at an item, provided that the subtrees of its children
+ * are already arranged. As in realign(), each child is moved closer to the pivot child
+ * as far as the margins of its siblings allow.
+ *
+ * @param {Object} item
+ *    root of the subtree
+ * @returns {Object}
+ *    arrangement of the subtree
+ */
+function arrangeSubtree<N extends LayoutNode>(item: LayoutItem<N>): Arrangement<N> {
+	const ch = item.children, L = ch.length;
+	if (L === 0) {
+		return { children: [], leafCount: 1, position: 0, offsets: [],
+			leftMargin: [ 0 ], rightMargin: [ 0 ] };
+	}
+
+	// Starts of the subtrees of the children relative to the first leaf of the subtree
+	var children: Arrangement<N>[] = [], starts: number[] = [],
+		leafCount = 0, i, d;
+	for (i = 0; i < L; i++) {
+		children[i] = ch[i].arrangement;
+		starts[i] = leafCount;
+		leafCount += children[i].leafCount;
+	}
+
+	const pivot = (L % 2 == 1) ? ((L - 1) / 2) : (L / 2 - 1);
+	for (i = pivot - 1; i >= 0; i--) {
+		// Siblings between the child and the pivot are already moved
+		var shift = Infinity;
+		for (var si = i + 1; si <= pivot; si++) {
+			const length = Math.min(children[i].rightMargin.length, children[si].leftMargin.length);
+			for (d = 0; d < length; d++) {
+				shift = Math.min(shift, starts[si] + children[si].leftMargin[d] -
+					starts[i] - children[i].rightMargin[d] - 1);
+			}
+		}
+		starts[i] += shift;
+	}
+	for (i = pivot + 1; i < L; i++) {
+		shift = Infinity;
+		for (si = i - 1; si >= 0; si--) {
+			const length = Math.min(children[i].leftMargin.length, children[si].rightMargin.length);
+			for (d = 0; d < length; d++) {
+				shift = Math.min(shift, starts[i] + children[i].leftMargin[d] -
+					starts[si] - children[si].rightMargin[d] - 1);
+			}
+		}
+		starts[i] -= shift;
+	}
+
+	const position = (L % 2 === 0) ?
+		(starts[pivot] + children[pivot].position + starts[pivot + 1] + children[pivot + 1].position) / 2 :
+		starts[pivot] + children[pivot].position;
+
+	// Unlike calculateMargins(), the first margins are taken from the children
+	// rather than the node itself (this is sufficient if all nodes are spaced
+	// by one leaf distance)
+	var arrangement: Arrangement<N> = {
+		children: children,
+		leafCount: leafCount,
+		position: position,
+		offsets: [],
+		leftMargin: [ starts[0] + children[0].position ],
+		rightMargin: [ starts[L - 1] + children[L - 1].position ]
+	};
+	const leftMargin = arrangement.leftMargin, rightMargin = arrangement.rightMargin;
+	for (i = 0; i < L; i++) {
+		arrangement.offsets[i] = starts[i] + children[i].position - position;
+
+		var margin = children[i].leftMargin;
+		for (d = 0; d < margin.length; d++) {
+			if ((d + 1 >= leftMargin.length) || (starts[i] + margin[d] < leftMargin[d + 1]))
+				leftMargin[d + 1] = starts[i] + margin[d];
+		}
+
+		margin = children[i].rightMargin;
+		for (d = 0; d < margin.length; d++) {
+			if ((d + 1 >= rightMargin.length) || (starts[i] + margin[d] > rightMargin[d + 1]))
+				rightMargin[d + 1] = starts[i] + margin[d];
+		}
+	}
+	return arrangement;
+}
+
+/**
+ * Determines leaf-related positions of the nodes using the Walker algorithm
+ * in the linear-time version by Buchheim, Jünger and Leipert.
+ * Adjacent subtrees are separated by at least one leaf distance.
+ *
+ * @param {Array} items
+ *    layout items, each parent before its children
+ * @param {Function} separation
+ *    minimal distance between adjacent nodes
+ */
+function tidyLayout<N extends LayoutNode>(items: LayoutItem<N>[], separation: Separation<N>) {
+	var i, item;
+	for (i = 0; i < items.length; i++) {
+		item = items[i];
+		item.prelim = item.mod = item.change = item.shift = 0;
+		item.thread = null;
+		item.ancestor = item;
+	}
+
+	firstWalk(items[0], separation);
+
+	// Second walk: sum up modifiers of ancestors (parents are processed before their children)
+	var min = Infinity;
+	for (i = 0; i < items.length; i++) {
+		item = items[i];
+		if (item.parent) {
+			item.leafPosition = item.prelim + item.parent.mod;
+			item.mod += item.parent.mod;
+		} else
+			item.leafPosition = item.prelim;
+		min = Math.min(min, item.leafPosition);
+	}
+
+	for (i = 0; i < items.length; i++) {
+		item = items[i];
+		item.leafPosition -= min;
+		delete item.prelim; delete item.mod; delete item.change; delete item.shift;
+		delete item.thread; delete item.ancestor;
+	}
+}
+
+function firstWalk<N extends LayoutNode>(item: LayoutItem<N>, separation: Separation<N>) {
+	const ch = item.children,
+		leftSibling = (item.index > 0) ? item.parent.children[item.index - 1] : null;
+
+	if (ch.length === 0) {
+		item.prelim = leftSibling ? leftSibling.prelim + separation(leftSibling, item) : 0;
+		return;
+	}
+
+	var defaultAncestor = ch[0];
+	for (var i = 0; i < ch.length; i++) {
+		firstWalk(ch[i], separation);
+		defaultAncestor = apportion(ch[i], defaultAncestor, separation);
+	}
+	executeShifts(item);
+
+	const midpoint = (ch[0].prelim + ch[ch.length - 1].prelim) / 2;
+	if (leftSibling) {
+		item.prelim = leftSibling.prelim + separation(leftSibling, item);
+		item.mod = item.prelim - midpoint;
+	} else
+		item.prelim = midpoint;
+}
+
+function nextLeft<N extends LayoutNode>(item: LayoutItem<N>) {
+	return (item.children.length > 0) ? item.children[0] : item.thread;
+}
+
+function nextRight<N extends LayoutNode>(item: LayoutItem<N>) {
+	return (item.children.length > 0) ? item.children[item.children.length - 1] : item.thread;
+}
+
+/**
+ * Moves the subtree rooted at an item apart from the subtrees of its left siblings,
+ * so that the contours of the subtrees do not overlap.
+ */
+function apportion<N extends LayoutNode>(item: LayoutItem<N>, defaultAncestor: LayoutItem<N>,
+	separation: Separation<N>) {
+
+	if (item.index === 0)
+		return defaultAncestor;
+
+	const siblings = item.parent.children;
+	// Inner and outer contours of the right (p) and left (m) subtrees
+	var vip = item, vop = item,
+		vim = siblings[item.index - 1], vom = siblings[0];
+	var sip = vip.mod, sop = vop.mod, sim = vim.mod, som = vom.mod;
+
+	while (nextRight(vim) && nextLeft(vip)) {
+		vim = nextRight(vim);
+		vip = nextLeft(vip);
+		vom = nextLeft(vom);
+		vop = nextRight(vop);
+		vop.ancestor = item;
+
+		const shift = (vim.prelim + sim) - (vip.prelim + sip) + separation(vim, vip);
+		if (shift > 0) {
+			const ancestor = (vim.ancestor.parent === item.parent) ? vim.ancestor : defaultAncestor;
+			moveSubtree(ancestor, item, shift);
+			sip += shift;
+			sop += shift;
+		}
+		sim += vim.mod;
+		sip += vip.mod;
+		som += vom.mod;
+		sop += vop.mod;
+	}
+
+	if (nextRight(vim) && !nextRight(vop)) {
+		vop.thread = nextRight(vim);
+		vop.mod += sim - sop;
+	}
+	if (nextLeft(vip) && !nextLeft(vom)) {
+		vom.thread = nextLeft(vip);
+		vom.mod += sip - som;
+		defaultAncestor = item;
+	}
+	return defaultAncestor;
+}
+
+function moveSubtree<N extends LayoutNode>(left: LayoutItem<N>, right: LayoutItem<N>, shift: number) {
+	const subtrees = right.index - left.index;
+	right.change -= shift / subtrees;
+	right.shift += shift;
+	left.change += shift / subtrees;
+	right.prelim += shift;
+	right.mod += shift;
+}
+
+/**
+ * Applies shifts accumulated by moveSubtree() to the children of an item.
+ */
+function executeShifts<N extends LayoutNode>(item: LayoutItem<N>) {
+	var shift = 0, change = 0;
+	for (var i = item.children.length - 1; i >= 0; i--) {
+		const child = item.children[i];
+		child.prelim += shift;
+		child.mod += shift;
+		change += child.change;
+		shift += child.shift + change;
+	}
+}
+
+/**
+ * Determines the number of pixels per unit of branch length.
+ *
+ * @param {Array} items
+ *    list of visible nodes
+ * @param {Object} options
+ *    layout options
+ * @returns {Number}
+ */
+function calculateLengthScale<N extends LayoutNode>(items: LayoutItem<N>[], options: LayoutOptions) {
+	if (options.depthScale != 'branchLength')
+		return null;
+	if (options.lengthScale)
+		return options.lengthScale;
+
+	var maxDepth = 0, maxDistance = 0;
+	for (var i = 0; i < items.length; i++) {
+		maxDepth = Math.max(maxDepth, items[i].depth);
+		maxDistance = Math.max(maxDistance, items[i].distance);
+	}
+	return (maxDistance > 0) ? maxDepth * options.depthDistance / maxDistance : 0;
+}
+
+/**
+ * Determines positions of tree levels along the depth axis. If label extents are known,
+ * each level is placed far enough from the previous one, so that labels do not overlap.
+ *
+ * @param {Array} items
+ *    layout items
+ * @param {Object} options
+ *    layout options
+ * @returns {Array}
+ *    positions of levels in pixels
+ */
+function calculateLevels<N extends LayoutNode>(items: LayoutItem<N>[], options: LayoutOptions) {
+	var extents: number[] = [], i;
+	for (i = 0; i < items.length; i++) {
+		const depth = items[i].depth;
+		extents[depth] = Math.max(extents[depth] || 0, items[i].labelDepth || 0);
+	}
+
+	var levels = [ 0 ];
+	for (i = 1; i < extents.length; i++) {
+		levels[i] = levels[i - 1] +
+			Math.max(options.depthDistance, extents[i - 1] + options.labelGap);
+	}
+	return levels;
+}
+
+/**
+ * Sets the position of a node in SVG coordinates.
+ *
+ * @param {Object} item
+ *    layout item for the node
+ * @param {Object} options
+ *    layout options
+ * @param {Number} lengthScale
+ *    number of pixels per unit of branch length (used in the 'branchLength' mode)
+ * @param {Array} levels
+ *    positions of tree levels (used in the 'levels' mode)
+ */
+function setCoordinates<N extends LayoutNode>(item: LayoutItem<N>, options: LayoutOptions,
+	lengthScale: number, levels: number[]) {
+
+	var x: number,
+		y = options.leafDistance * item.leafPosition;
+	delete item.leafPosition;
+
+	if (options.depthScale == 'branchLength')
+		x = lengthScale * item.distance;
+	else
+		x = levels[item.depth];
+
+	switch (options.orientation) {
+		case 'v':
+			item.x = y;
+			item.y = x;
+			break;
+		case 'v-reverse':
+			item.x = y;
+			item.y = -x;
+			break;
+		case 'h-reverse':
+			item.x = -x;
+			item.y = y;
+			break;
+		default:
+			// Radial coordinates are derived from horizontal ones
+			item.x = x;
+			item.y = y;
+	}
+}
+
+/**
+ * Converts coordinates calculated for the horizontal orientation into polar ones.
+ * Leaves are spread evenly around a circle, and the depth of a node determines its radius.
+ * The radii are scaled up if necessary, so that the outermost leaves are separated
+ * by at least the leaf distance.
+ *
+ * @param {Array} items
+ *    layout items with coordinates set for the horizontal orientation
+ * @param {Object} options
+ *    layout options
+ */
+function toPolar<N extends LayoutNode>(items: LayoutItem<N>[], options: LayoutOptions) {
+	var maxRadius = 0, leafCount = 0, i;
+	for (i = 0; i < items.length; i++) {
+		maxRadius = Math.max(maxRadius, items[i].x);
+		leafCount = Math.max(leafCount, items[i].y / options.leafDistance + 1);
+	}
+
+	const minRadius = leafCount * options.leafDistance / (2 * Math.PI),
+		radiusScale = ((maxRadius > 0) && (maxRadius < minRadius) && (leafCount > 1)) ?
+			minRadius / maxRadius : 1;
+
+	for (i = 0; i < items.length; i++) {
+		const item = items[i],
+			radius = item.x * radiusScale,
+			angle = 2 * Math.PI * item.y / options.leafDistance / leafCount;
+
+		item.angle = angle;
+		item.x = radius * Math.cos(angle);
+		item.y = radius * Math.sin(angle);
+	}
+}
+
+/**
+ * Returns points of a polyline approximating a circular arc centered at the origin.
+ *
+ * @param {Number} radius
+ * @param {Number} start
+ *    start angle in radians
+ * @param {Number} end
+ *    end angle in radians
+ * @returns {Array}
+ */
+function arc(radius: number, start: number, end: number) {
+	const maxSegment = 5,	// maximal length of a polyline segment
+		nSegments = Math.max(1, Math.ceil(Math.abs(end - start) * radius / maxSegment));
+	var points: number[] = [];
+	for (var i = 0; i <= nSegments; i++) {
+		const angle = start + (end - start) * i / nSegments;
+		points.push(radius * Math.cos(angle), radius * Math.sin(angle));
+	}
+	return points;
+}
+
+/**
+ * Determines the polyline for the edge leading to a node from its parent.
+ * Straight edges consist of a single segment; angular edges consist of a pair of segments
+ * (a segment along the leaf axis, then along the depth axis). In the radial orientation,
+ * angular edges consist of an arc around the center and a radial segment.
+ */
+function setEdge<N extends LayoutNode>(item: LayoutItem<N>, options: LayoutOptions) {
+	const parent = item.parent;
+
+	if (options.edges == 'straight')
+		item.edge = [ parent.x, parent.y, item.x, item.y ];
+	else if (options.orientation == 'radial') {
+		const radius = Math.sqrt(parent.x * parent.x + parent.y * parent.y);
+		item.edge = arc(radius, parent.angle, item.angle);
+		item.edge.push(item.x, item.y);
+	} else if (isHorizontal(options.orientation))
+		item.edge = [ parent.x, parent.y, parent.x, item.y, item.x, item.y ];
+	else
+		item.edge = [ parent.x, parent.y, item.x, parent.y, item.x, item.y ];
+}
@@ -0,0 +1,26 @@
+/* jshint node: true */
+/*	Tests for the phylogram layout by branch lengths.
+ */
+var test = require('node:test'),
+	assert = require('node:assert'),
+	helpers = require('./layout-helpers.js'),
+	layoutTree = helpers.layoutTree,
+	points = helpers.points;
+
+test('branch lengths determine depths in the branchLength scale', function() {
+	var tree = { children: [
+		{ branchLength: 1, children: [ { branchLength: 2 }, { branchLength: 1 } ] },
+		{ branchLength: 3 }
+	] };
+	var layout = layoutTree(tree, { depthScale: 'branchLength' });
+	// The deepest node is placed as deep as in the levels scale (2 levels)
+	assert.ok(Math.abs(layout.lengthScale - 100 / 3) < 1e-6);
+	assert.deepStrictEqual(layout.nodes.map(function(pos) { return pos.distance; }), [0, 1, 3, 3, 2]);
+	layout.nodes.forEach(function(pos) {
+		assert.ok(Math.abs(pos.y - pos.distance * layout.lengthScale) < 1e-6);
+	});
+
+	layout = layoutTree(tree, { depthScale: 'branchLength', lengthScale: 10 });
+	assert.strictEqual(layout.lengthScale, 10);
+	assert.deepStrictEqual(points(layout).map(function(p) { return p[1]; }), [0, 10, 30, 30, 20]);
+});
@@ -0,0 +1,67 @@
+/* jshint node: true */
+/*	Tests for spacing nodes according to the sizes of their labels.
+ */
+var test = require('node:test'),
+	assert = require('node:assert'),
+	helpers = require('./layout-helpers.js'),
+	layoutTree = helpers.layoutTree,
+	points = helpers.points;
+
+// ((a,b)c,d)r with the label width of each node set in the label field
+function labeledTree(widths) {
+	return { label: widths.r, children: [
+		{ label: widths.c, children: [ { label: widths.a }, { label: widths.b } ] },
+		{ label: widths.d }
+	] };
+}
+
+// Labels are centered below nodes, as in the 'v' orientation
+function labelBox(node) {
+	return { x: -node.label / 2, y: 5, width: node.label, height: 12 };
+}
+
+// Checks that labels of adjacent nodes on each level are separated by the gap
+function assertSeparated(layout, gap) {
+	var levels = {};
+	layout.nodes.forEach(function(pos) {
+		(levels[pos.depth] = levels[pos.depth] || []).push(pos);
+	});
+	Object.keys(levels).forEach(function(depth) {
+		var level = levels[depth];
+		for (var i = 1; i < level.length; i++) {
+			var left = level[i - 1], right = level[i];
+			assert.ok(right.x - left.x >= 40 - 1e-6);
+			assert.ok((right.x - right.node.label / 2) - (left.x + left.node.label / 2) >= gap - 1e-6);
+		}
+	});
+}
+
+[ 'median', 'tidy' ].forEach(function(algorithm) {
+	test(algorithm + ' layout keeps the leaf distance for narrow labels', function() {
+		var tree = labeledTree({ r: 10, c: 10, a: 10, b: 10, d: 10 }),
+			layout = layoutTree(tree, { layout: algorithm, labelBox: labelBox }),
+			xs = points(layout).map(function(p) { return p[0]; });
+		assertSeparated(layout, 4);
+		assert.strictEqual(xs[4] - xs[3], 40);
+		assert.strictEqual(xs[2] - xs[1], 40);
+	});
+
+	test(algorithm + ' layout spaces siblings apart for wide labels', function() {
+		var tree = labeledTree({ r: 10, c: 10, a: 100, b: 60, d: 150 }),
+			layout = layoutTree(tree, { layout: algorithm, labelBox: labelBox, labelGap: 6 });
+		assertSeparated(layout, 6);
+		// Leaves a and b are spaced by the halves of their labels and the gap
+		var xs = points(layout).map(function(p) { return p[0]; });
+		assert.ok(Math.abs(xs[4] - xs[3] - (50 + 30 + 6)) < 1e-6);
+	});
+});
+
+test('labels extending along the depth axis increase depth distances', function() {
+	var tree = labeledTree({ r: 10, c: 10, a: 10, b: 10, d: 10 });
+	var layout = layoutTree(tree, {
+		labelBox: function(node) { return { x: -5, y: 5, width: 10, height: 60 }; }
+	});
+	var ys = points(layout).map(function(p) { return p[1]; });
+	// Labels below nodes on each level end 65 pixels below the node
+	assert.deepStrictEqual(ys, [0, 69, 69, 138, 138]);
+});
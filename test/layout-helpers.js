@@ -0,0 +1,26 @@
+/* jshint node: true */
+/*	Shared fixtures of the layout tests.
+	The layout module is compiled into tmp/test/ by the test-layout script.
+ */
+var layoutTree = require('../tmp/test/TreeLayout.js').layoutTree;
+
+// ((a,b)c,d)r
+function sampleTree() {
+	return { children: [ { children: [ { }, { } ] }, { } ] };
+}
+
+// Returns [x, y] pairs of the nodes in a layout, rounded to 1e-6 (without negative zeros)
+function points(layout) {
+	function round(value) {
+		return (Math.round(value * 1e6) / 1e6) || 0;
+	}
+	return layout.nodes.map(function(pos) {
+		return [ round(pos.x), round(pos.y) ];
+	});
+}
+
+module.exports = {
+	layoutTree: layoutTree,
+	sampleTree: sampleTree,
+	points: points
+};
@@ -0,0 +1,30 @@
+/* jshint node: true */
+/*	Tests for the orientations of trees.
+ */
+var test = require('node:test'),
+	assert = require('node:assert'),
+	helpers = require('./layout-helpers.js'),
+	layoutTree = helpers.layoutTree,
+	sampleTree = helpers.sampleTree,
+	points = helpers.points;
+
+test('horizontal orientations swap the axes', function() {
+	var vertical = points(layoutTree(sampleTree())),
+		horizontal = points(layoutTree(sampleTree(), { orientation: 'h' }));
+	assert.deepStrictEqual(horizontal, vertical.map(function(p) { return [p[1], p[0]]; }));
+});
+
+test('reversed orientations flip the depth axis', function() {
+	var vertical = points(layoutTree(sampleTree())),
+		reverse = points(layoutTree(sampleTree(), { orientation: 'v-reverse' })),
+		hReverse = points(layoutTree(sampleTree(), { orientation: 'h-reverse' }));
+	assert.deepStrictEqual(reverse, vertical.map(function(p) { return [p[0], -p[1] || 0]; }));
+	assert.deepStrictEqual(hReverse, vertical.map(function(p) { return [-p[1] || 0, p[0]]; }));
+});
+
+test('angular edges turn at the depth of the parent in reversed orientations', function() {
+	var reverse = layoutTree(sampleTree(), { orientation: 'v-reverse' }),
+		hReverse = layoutTree(sampleTree(), { orientation: 'h-reverse' });
+	assert.deepStrictEqual(reverse.nodes[3].edge, [20, -50, 0, -50, 0, -100]);
+	assert.deepStrictEqual(hReverse.nodes[3].edge, [-50, 20, -50, 0, -100, 0]);
+});
@@ -0,0 +1,34 @@
+/* jshint node: true */
+/*	Tests for the radial tree orientation.
+ */
+var test = require('node:test'),
+	assert = require('node:assert'),
+	helpers = require('./layout-helpers.js'),
+	layoutTree = helpers.layoutTree,
+	sampleTree = helpers.sampleTree,
+	points = helpers.points;
+
+test('radial layout places nodes on circles by depth', function() {
+	var layout = layoutTree(sampleTree(), { orientation: 'radial' });
+	assert.deepStrictEqual(points(layout)[0], [0, 0]);
+	layout.nodes.forEach(function(pos) {
+		var radius = Math.sqrt(pos.x * pos.x + pos.y * pos.y);
+		assert.ok(Math.abs(radius - pos.depth * 50) < 1e-6);
+		if (pos.depth > 0) {
+			assert.ok(Math.abs(pos.x - radius * Math.cos(pos.angle)) < 1e-6);
+			assert.ok(Math.abs(pos.y - radius * Math.sin(pos.angle)) < 1e-6);
+		}
+	});
+});
+
+test('radial angular edges follow an arc around the center', function() {
+	var layout = layoutTree(sampleTree(), { orientation: 'radial' });
+	layout.nodes.slice(1).forEach(function(pos) {
+		var parent = pos.parent, edge = pos.edge,
+			radius = Math.sqrt(parent.x * parent.x + parent.y * parent.y);
+		// The edge ends with a radial segment leading to the node
+		assert.deepStrictEqual(edge.slice(-2), [pos.x, pos.y]);
+		for (var i = 0; i < edge.length - 2; i += 2)
+			assert.ok(Math.abs(Math.sqrt(edge[i] * edge[i] + edge[i + 1] * edge[i + 1]) - radius) < 1e-6);
+	});
+});
@@ -0,0 +1,37 @@
+/* jshint node: true */
+/*	Tests for the tidy tree layout.
+ */
+var test = require('node:test'),
+	assert = require('node:assert'),
+	helpers = require('./layout-helpers.js'),
+	layoutTree = helpers.layoutTree,
+	sampleTree = helpers.sampleTree,
+	points = helpers.points;
+
+test('tidy layout centers parents above their children', function() {
+	var layout = layoutTree(sampleTree(), { layout: 'tidy' });
+	assert.deepStrictEqual(points(layout), [ [40, 0], [20, 50], [60, 50], [0, 100], [40, 100] ]);
+});
+
+test('tidy layout separates nodes on each level by the leaf distance', function() {
+	// ((a,(b,c)d)e,(f,g,h)i,j)r
+	var tree = { children: [
+		{ children: [ { }, { children: [ { }, { } ] } ] },
+		{ children: [ { }, { }, { } ] },
+		{ }
+	] };
+	var layout = layoutTree(tree, { layout: 'tidy' }), levels = {};
+	layout.nodes.forEach(function(pos) {
+		(levels[pos.y] = levels[pos.y] || []).push(pos.x);
+		var children = layout.nodes.filter(function(child) { return child.parent === pos; });
+		if (children.length > 0) {
+			var first = children[0].x, last = children[children.length - 1].x;
+			assert.ok(Math.abs(pos.x - (first + last) / 2) < 1e-6);
+		}
+	});
+	Object.keys(levels).forEach(function(y) {
+		var xs = levels[y];
+		for (var i = 1; i < xs.length; i++)
+			assert.ok(xs[i] - xs[i - 1] >= 40 - 1e-6);
+	});
+});
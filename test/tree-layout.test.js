@@ -0,0 +1,62 @@
+/* jshint node: true */
+/*	Tests for the DOM-free tree layout.
+ */
+var test = require('node:test'),
+	assert = require('node:assert'),
+	helpers = require('./layout-helpers.js'),
+	layoutTree = helpers.layoutTree,
+	sampleTree = helpers.sampleTree,
+	points = helpers.points;
+
+test('median layout places parents at the median of their children', function() {
+	var layout = layoutTree(sampleTree());
+	assert.deepStrictEqual(points(layout), [ [50, 0], [20, 50], [80, 50], [0, 100], [40, 100] ]);
+	assert.deepStrictEqual(layout.nodes.map(function(pos) { return pos.depth; }), [0, 1, 1, 2, 2]);
+	assert.strictEqual(layout.lengthScale, null);
+});
+
+test('each parent precedes its children', function() {
+	var layout = layoutTree(sampleTree());
+	for (var i = 1; i < layout.nodes.length; i++) {
+		var parent = layout.nodes[i].parent;
+		assert.ok(layout.nodes.indexOf(parent) >= 0);
+		assert.ok(layout.nodes.indexOf(parent) < i);
+	}
+	assert.strictEqual(layout.nodes[0].parent, null);
+});
+
+test('angular and straight edges', function() {
+	var angular = layoutTree(sampleTree()),
+		straight = layoutTree(sampleTree(), { edges: 'straight' });
+	assert.deepStrictEqual(angular.nodes[0].edge, []);
+	assert.deepStrictEqual(angular.nodes[3].edge, [20, 50, 0, 50, 0, 100]);
+	assert.deepStrictEqual(straight.nodes[3].edge, [20, 50, 0, 100]);
+});
+
+test('descendants of collapsed nodes are not laid out', function() {
+	var tree = { children: [ { }, { collapsed: true, children: [ { }, { } ] }, { } ] };
+	var layout = layoutTree(tree);
+	assert.strictEqual(layout.nodes.length, 4);
+	assert.deepStrictEqual(points(layout).slice(1), [ [0, 50], [40, 50], [80, 50] ]);
+});
+
+test('layout based on a previous layout equals a new layout after changes', function() {
+	// ((a,(b,c)d)e,(f,g,(h,i)j)k,l)r
+	var tree = { children: [
+		{ children: [ { }, { children: [ { }, { } ] } ] },
+		{ children: [ { }, { }, { children: [ { }, { } ] } ] },
+		{ }
+	] };
+	var e = tree.children[0], k = tree.children[1],
+		previous = layoutTree(tree);
+
+	e.children[1].children.push({ });
+	var layout = layoutTree(tree, { }, previous);
+	assert.deepStrictEqual(points(layout), points(layoutTree(tree)));
+	assert.notDeepStrictEqual(points(layout), points(previous));
+
+	k.children[2].collapsed = true;
+	tree.children.push(e.children.shift());
+	layout = layoutTree(tree, { orientation: 'h' }, layout);
+	assert.deepStrictEqual(points(layout), points(layoutTree(tree, { orientation: 'h' })));
+});